@@ -1,20 +1,82 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
 import Session from './components/Session';
 import PaymentModal from './components/PaymentModal';
-import { User, AvatarConfig, SessionResult, RANKS } from './types';
-import { supabase, getUserHistory, updateUserStats, saveSession, getUserProfile, updateUserProfile } from './services/supabase';
+import { User, AvatarConfig, Scenario, SessionResult, DifficultyParameters, UserPreferences, VocabularyCard, CreditLedgerEntry, RANKS } from './types';
+import { supabase, getUserHistory, updateUserStats, saveSession, getUserProfile, updateUserProfile, updateUserPreferences, uploadSessionRecording, pruneSessionRecordings, getVocabularyDeck, addVocabularyCards, updateVocabularyCard, getCreditStatement } from './services/supabase';
+import { runEvaluation } from './services/evaluationQueue';
+import { rescoreSessions, RescoreProgress } from './services/rescoring';
+import { getRubric } from './services/rubrics';
+import { SessionRecordingFile } from './utils/sessionRecorder';
+import { UserAudioSegment } from './utils/userSpeech';
+import { estimateProfileLevel } from './utils/cefr';
+import { reviewCard } from './utils/spacedRepetition';
+import { extractVocabulary } from './utils/vocabulary';
+import { buildLearnerModel, getDifficultyParameters } from './utils/learnerModel';
+import { SCORE_TREND_LABELS } from './utils/sessionSegments';
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [history, setHistory] = useState<SessionResult[]>([]);
   const [currentView, setCurrentView] = useState<'login' | 'dashboard' | 'session' | 'result'>('login');
   const [selectedAvatar, setSelectedAvatar] = useState<AvatarConfig | null>(null);
+  const [selectedScenario, setSelectedScenario] = useState<Scenario | null>(null);
+  // Fixada no início da sessão: avaliações que terminam durante a conversa não mudam o tutor
+  const [sessionDifficulty, setSessionDifficulty] = useState<DifficultyParameters | null>(null);
   const [lastSessionResult, setLastSessionResult] = useState<SessionResult | null>(null);
   const [showPaymentModal, setShowPaymentModal] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [rescoreProgress, setRescoreProgress] = useState<RescoreProgress | null>(null);
+  const [vocabulary, setVocabulary] = useState<VocabularyCard[]>([]);
+  const [creditStatement, setCreditStatement] = useState<CreditLedgerEntry[]>([]);
+
+  // Avaliações terminam minutos depois da sessão: leem sempre o usuário e o histórico mais recentes
+  const userRef = useRef(user);
+  userRef.current = user;
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  /**
+   * Aplica o resultado da fila de avaliação. Pontos, rank e nível só entram com uma avaliação real.
+   */
+  const applyEvaluation = async (evaluated: SessionResult) => {
+    // A sessão relida do banco (avaliada por outra aba) volta com a data no formato do Postgres
+    const isSame = (item: SessionResult) => item.date === evaluated.date || (!!evaluated.id && item.id === evaluated.id);
+    const updatedHistory = historyRef.current.map(item => isSame(item) ? evaluated : item);
+    setHistory(prev => prev.map(item => isSame(item) ? evaluated : item));
+    setLastSessionResult(prev => prev && isSame(prev) ? evaluated : prev);
+
+    const currentUser = userRef.current;
+    if (evaluated.evaluationStatus !== 'done' || !currentUser?.id) return;
+
+    // Os pontos já foram somados pelo banco ao gravar a avaliação; rank e nível derivam do total gravado
+    const profile = await getUserProfile(currentUser.id);
+    const updatedPoints = profile?.points ?? currentUser.points;
+    const achievedRank = [...RANKS].reverse().find(r => updatedPoints >= r.minPoints);
+    const newRank = achievedRank ? achievedRank.name : currentUser.rank;
+    const newCefrLevel = estimateProfileLevel(currentUser.cefrLevel, updatedHistory);
+
+    setUser(prev => prev ? ({ ...prev, points: updatedPoints, rank: newRank, cefrLevel: newCefrLevel }) : null);
+    await updateUserStats(currentUser.id, { rank: newRank, cefrLevel: newCefrLevel });
+
+    // Palavras novas da sessão vão para o baralho de revisão
+    const addedCards = await addVocabularyCards(currentUser.id, evaluated.id, extractVocabulary(evaluated));
+    if (addedCards.length) setVocabulary(prev => [...prev, ...addedCards]);
+  };
+
+  const queueEvaluation = async (userId: string, session: SessionResult, userAudio?: UserAudioSegment[]) => {
+    const evaluated = await runEvaluation({ userId, session, userAudio });
+    if (evaluated) await applyEvaluation(evaluated);
+  };
+
+  // Sessões que ficaram 'pending' (aba fechada durante a avaliação) voltam para a fila
+  const resumePendingEvaluations = (userId: string, sessions: SessionResult[]) => {
+    sessions
+      .filter(s => s.evaluationStatus === 'pending' && s.id)
+      .forEach(s => queueEvaluation(userId, s));
+  };
 
   useEffect(() => {
     const checkUser = async () => {
@@ -27,7 +89,10 @@ function App() {
             setUser(profile);
             const userHistory = await getUserHistory(session.user.id);
             setHistory(userHistory);
+            setVocabulary(await getVocabularyDeck(session.user.id));
+            setCreditStatement(await getCreditStatement(session.user.id));
             setCurrentView('dashboard');
+            resumePendingEvaluations(session.user.id, userHistory);
           }
         }
       } catch (err) {
@@ -44,6 +109,9 @@ function App() {
     if (userData.id) {
       const userHistory = await getUserHistory(userData.id);
       setHistory(userHistory);
+      setVocabulary(await getVocabularyDeck(userData.id));
+      setCreditStatement(await getCreditStatement(userData.id));
+      resumePendingEvaluations(userData.id, userHistory);
     }
     setCurrentView('dashboard');
   };
@@ -52,18 +120,21 @@ function App() {
     try { await supabase.auth.signOut(); } catch (e) {}
     setUser(null);
     setHistory([]);
+    setVocabulary([]);
+    setCreditStatement([]);
     setCurrentView('login');
   };
 
-  const handleStartSession = (avatar: AvatarConfig) => {
+  const handleStartSession = (avatar: AvatarConfig, scenario?: Scenario | null) => {
     setSelectedAvatar(avatar);
+    setSelectedScenario(scenario || null);
+    setSessionDifficulty(getDifficultyParameters(buildLearnerModel(user?.cefrLevel, history)));
     setCurrentView('session');
   };
 
-  const handleUpdateCredits = async (remainingSeconds: number) => {
-    if (!user?.id) return;
+  // Os créditos são debitados pelo servidor (services/credits); aqui só se reflete o saldo informado
+  const handleUpdateCredits = (remainingSeconds: number) => {
     setUser(prev => prev ? ({ ...prev, credits: remainingSeconds }) : null);
-    await updateUserStats(user.id, { credits: remainingSeconds });
   };
 
   const handleUpdateProfile = async (data: { name: string, surname: string }) => {
@@ -79,19 +150,29 @@ function App() {
     return false;
   };
 
+  const handleUpdatePreferences = async (changes: Partial<UserPreferences>) => {
+    if (!user?.id) return;
+    const preferences = { ...user.preferences, ...changes };
+    setUser(prev => prev ? ({ ...prev, preferences }) : null);
+    await updateUserPreferences(user.id, preferences);
+  };
+
   /**
    * Chamado quando o pagamento é confirmado.
    * Recebe o perfil já atualizado pelo Trigger do Banco de Dados.
    */
-  const handlePaymentSuccess = (updatedUser: User) => {
+  const handlePaymentSuccess = async (updatedUser: User) => {
     setUser(updatedUser);
     setShowPaymentModal(false);
     alert(`Parabéns! Seus créditos foram atualizados com sucesso.`);
+    if (updatedUser.id) setCreditStatement(await getCreditStatement(updatedUser.id));
   };
 
   const handleSessionComplete = async (
     result: Omit<SessionResult, 'date' | 'avatarName' | 'durationSeconds'> & { durationSeconds: number },
-    finalCredits: number
+    finalCredits: number,
+    recording?: SessionRecordingFile | null,
+    userAudio?: UserAudioSegment[]
   ) => {
     if (!user?.id || !selectedAvatar) {
       console.error("[App] Erro crítico: Usuário ou Avatar ausentes.");
@@ -108,39 +189,72 @@ function App() {
     setHistory(prev => [fullResult, ...prev]);
     setCurrentView('result');
     
-    const updatedPoints = user.points + fullResult.overallScore;
     const updatedSessions = user.sessionsCompleted + 1;
-    const achievedRank = [...RANKS].reverse().find(r => updatedPoints >= r.minPoints);
-    const newRank = achievedRank ? achievedRank.name : user.rank;
 
     try {
-        // Primeiro salvamos a sessão
-        await saveSession(user.id, fullResult);
+        // A gravação (opt-in) é enviada antes para que a sessão já seja salva com o caminho do arquivo
+        if (recording) {
+          const recordingPath = await uploadSessionRecording(user.id, recording);
+          if (recordingPath) {
+            fullResult.recordingPath = recordingPath;
+          }
+        }
+
+        // A transcrição é salva já na hora (como 'pending'); a avaliação vem depois pela fila
+        const sessionId = await saveSession(user.id, fullResult);
+        if (sessionId) fullResult.id = sessionId;
+        setHistory(prev => prev.map(item => item.date === fullResult.date ? { ...fullResult } : item));
+        setLastSessionResult(prev => prev && prev.date === fullResult.date ? { ...fullResult } : prev);
+        if (fullResult.recordingPath) {
+          await pruneSessionRecordings(user.id);
+        }
         
-        // Atualizamos as estatísticas USANDO o finalCredits recebido da Session
-        await updateUserStats(user.id, {
-          points: updatedPoints,
-          sessionsCompleted: updatedSessions,
-          rank: newRank,
-          credits: finalCredits 
-        });
-
-        // Atualizamos o estado local também garantindo o saldo correto
+        await updateUserStats(user.id, { sessionsCompleted: updatedSessions });
+
+        // finalCredits é o saldo informado pelo servidor ao encerrar a sessão
         setUser(prev => prev ? ({ 
           ...prev, 
-          points: updatedPoints, 
           sessionsCompleted: updatedSessions, 
-          rank: newRank,
           credits: finalCredits
         }) : null);
+        setCreditStatement(await getCreditStatement(user.id));
     } catch (e) {
         console.error("[App] Erro na sincronização pós-sessão:", e);
     }
+
+    // Sem id (falha ao salvar), a fila insere a sessão já avaliada
+    await queueEvaluation(user.id, { ...fullResult }, userAudio);
+  };
+
+  const handleRetryEvaluation = (session: SessionResult) => {
+    if (!user?.id) return;
+    const pending: SessionResult = { ...session, evaluationStatus: 'pending' };
+    setHistory(prev => prev.map(item => item.date === session.date ? pending : item));
+    queueEvaluation(user.id, pending);
+  };
+
+  /**
+   * Reavalia o histórico com a rubrica atual, mantendo as notas originais de cada sessão
+   */
+  const handleRescoreHistory = async () => {
+    if (rescoreProgress) return;
+    const rescored = await rescoreSessions(historyRef.current, getRubric(), setRescoreProgress);
+    setHistory(prev => prev.map(item => item.id && rescored[item.id]
+      ? { ...item, rescores: [...(item.rescores || []), rescored[item.id]] }
+      : item));
+    setRescoreProgress(null);
+  };
+
+  const handleReviewCard = async (card: VocabularyCard, grade: number) => {
+    const schedule = reviewCard(card, grade);
+    setVocabulary(prev => prev.map(item => item.id === card.id ? { ...item, ...schedule } : item));
+    await updateVocabularyCard(card.id, schedule);
   };
 
   const handleCancelSession = () => {
     setCurrentView('dashboard');
     setSelectedAvatar(null);
+    setSelectedScenario(null);
   };
 
   const handleReturnToDashboard = () => {
@@ -166,9 +280,12 @@ function App() {
         <Session 
           user={user} 
           avatar={selectedAvatar} 
+          scenario={selectedScenario}
+          difficulty={sessionDifficulty}
           onComplete={handleSessionComplete} 
           onCancel={handleCancelSession}
           onUpdateCredits={handleUpdateCredits}
+          onUpdatePreferences={handleUpdatePreferences}
           onBuyCredits={() => {
             setCurrentView('dashboard');
             setShowPaymentModal(true);
@@ -179,10 +296,34 @@ function App() {
           <div className="bg-gray-800 p-8 rounded-3xl shadow-2xl max-w-2xl w-full border border-gray-700 text-center animate-fade-in relative overflow-hidden">
              <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500"></div>
              <div className="inline-flex items-center justify-center w-24 h-24 rounded-full bg-blue-500/10 text-blue-400 mb-6 ring-1 ring-blue-500/30">
-                <span className="text-4xl font-extrabold">{lastSessionResult.overallScore}</span>
+                {lastSessionResult.evaluationStatus === 'pending' ? (
+                   <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                ) : (
+                   <span className="text-4xl font-extrabold">{lastSessionResult.evaluationStatus === 'failed' ? '—' : lastSessionResult.overallScore}</span>
+                )}
              </div>
              <h2 className="text-3xl font-bold text-white mb-2">Sessão Finalizada!</h2>
-             <p className="text-gray-400 mb-8">Sua prática foi avaliada e gravada.</p>
+             {lastSessionResult.evaluationStatus === 'pending' ? (
+                <p className="text-gray-400 mb-8">Sua conversa foi salva. Avaliando... os pontos entram assim que a avaliação terminar.</p>
+             ) : lastSessionResult.evaluationStatus === 'failed' ? (
+                <p className="text-gray-400 mb-8">Sua conversa foi salva, mas não conseguimos avaliá-la agora. Tente novamente pelo histórico no painel.</p>
+             ) : (
+                <p className="text-gray-400 mb-8">Sua prática foi avaliada e gravada.</p>
+             )}
+             {lastSessionResult.evaluationStatus === 'done' && (<>
+             {lastSessionResult.cefr && (
+                <div className="bg-gray-900/50 p-4 rounded-2xl border border-gray-700 mb-4 text-left">
+                   <div className="flex items-center justify-between mb-2">
+                      <span className="text-[10px] uppercase text-gray-500 font-bold">Nível demonstrado nesta sessão</span>
+                      <span className="text-xl font-extrabold text-blue-400">{lastSessionResult.cefr.level}</span>
+                   </div>
+                   <ul className="space-y-1">
+                      {lastSessionResult.cefr.descriptors.map(descriptor => (
+                         <li key={descriptor} className="text-xs text-gray-400 flex gap-2"><span className="text-blue-400">✓</span>{descriptor}</li>
+                      ))}
+                   </ul>
+                </div>
+             )}
              <div className="grid grid-cols-3 gap-4 mb-8">
                 <div className="bg-gray-900/50 p-4 rounded-2xl border border-gray-700">
                    <div className="text-[10px] uppercase text-gray-500 font-bold mb-1">Vocabulário</div>
@@ -194,12 +335,33 @@ function App() {
                 </div>
                 <div className="bg-gray-900/50 p-4 rounded-2xl border border-gray-700">
                    <div className="text-[10px] uppercase text-gray-500 font-bold mb-1">Pronúncia</div>
-                   <div className="text-xl font-bold text-emerald-400">{lastSessionResult.pronunciationScore}%</div>
+                   <div className="text-xl font-bold text-emerald-400">{lastSessionResult.inputMode === 'text' ? '—' : `${lastSessionResult.pronunciationScore}%`}</div>
+                   {lastSessionResult.inputMode !== 'text' && lastSessionResult.pronunciationEstimated && (
+                      <div className="text-[9px] text-gray-500 uppercase mt-1" title="Sem áudio da sua fala: nota estimada pela transcrição">estimada</div>
+                   )}
                 </div>
              </div>
              <div className="bg-blue-900/20 p-6 rounded-2xl text-left mb-8 border border-blue-500/20">
-                <p className="text-gray-300 leading-relaxed text-sm">{lastSessionResult.feedback}</p>
+                {lastSessionResult.scoreTrend && (
+                   <div className="text-[10px] uppercase text-gray-500 font-bold mb-2">Sua nota {SCORE_TREND_LABELS[lastSessionResult.scoreTrend]}</div>
+                )}
+                <p className="text-gray-300 leading-relaxed text-sm whitespace-pre-line">{lastSessionResult.feedback}</p>
              </div>
+             {lastSessionResult.scenario && (
+                <div className="bg-gray-900/50 p-6 rounded-2xl text-left mb-8 border border-gray-700">
+                   <div className="text-[10px] uppercase text-gray-500 font-bold mb-3">
+                      Metas do cenário · {lastSessionResult.scenario.goals.filter(g => g.reached).length}/{lastSessionResult.scenario.goals.length}
+                   </div>
+                   <ul className="space-y-2">
+                      {lastSessionResult.scenario.goals.map(g => (
+                         <li key={g.goal} className={`text-sm flex gap-2 ${g.reached ? 'text-green-400' : 'text-gray-500'}`}>
+                            <span>{g.reached ? '✓' : '○'}</span>{g.goal}
+                         </li>
+                      ))}
+                   </ul>
+                </div>
+             )}
+             </>)}
              <button onClick={handleReturnToDashboard} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-xl shadow-lg">
                Voltar ao Painel
              </button>
@@ -213,6 +375,12 @@ function App() {
           onLogout={handleLogout}
           onAddCredits={() => setShowPaymentModal(true)}
           onUpdateProfile={handleUpdateProfile}
+          onRetryEvaluation={handleRetryEvaluation}
+          rescoreProgress={rescoreProgress}
+          onRescoreHistory={handleRescoreHistory}
+          vocabulary={vocabulary}
+          onReviewCard={handleReviewCard}
+          creditStatement={creditStatement}
         />
       )}
       {showPaymentModal && <PaymentModal user={user} onClose={() => setShowPaymentModal(false)} onSuccess={handlePaymentSuccess} />}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { CreditEntryKind, CreditLedgerEntry, SessionResult } from '../types';
+
+interface CreditStatementProps {
+  entries: CreditLedgerEntry[];
+  history: SessionResult[];
+  balance: number;
+}
+
+interface StatementLine {
+  key: string;
+  kind: CreditEntryKind;
+  label: string;
+  amount: number;
+  date: string;
+}
+
+const KIND_LABELS: Record<CreditEntryKind, string> = {
+  purchase: 'Compra de créditos',
+  session: 'Sessão de conversa',
+  bonus: 'Bônus',
+  adjustment: 'Ajuste'
+};
+
+const formatDuration = (seconds: number) => `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const formatAmount = (seconds: number) => `${seconds < 0 ? '−' : '+'}${formatDuration(Math.abs(seconds))}`;
+
+/**
+ * Uma sessão é debitada a cada heartbeat; no extrato os débitos dela viram uma linha só.
+ */
+const toStatementLines = (entries: CreditLedgerEntry[], history: SessionResult[]): StatementLine[] => {
+  const lines: StatementLine[] = [];
+  const sessionLines = new Map<string, StatementLine>();
+
+  entries.forEach(entry => {
+    if (entry.kind === 'session' && entry.sessionRef) {
+      const existing = sessionLines.get(entry.sessionRef);
+      if (existing) {
+        existing.amount += entry.amount;
+        return;
+      }
+      const session = history.find(item => item.sessionRef === entry.sessionRef);
+      const line = {
+        key: entry.sessionRef,
+        kind: entry.kind,
+        label: session ? `Sessão com ${session.avatarName}` : KIND_LABELS.session,
+        amount: entry.amount,
+        date: entry.createdAt
+      };
+      sessionLines.set(entry.sessionRef, line);
+      lines.push(line);
+      return;
+    }
+    lines.push({ key: entry.id, kind: entry.kind, label: entry.description || KIND_LABELS[entry.kind], amount: entry.amount, date: entry.createdAt });
+  });
+  return lines;
+};
+
+const CreditStatement: React.FC<CreditStatementProps> = ({ entries, history, balance }) => {
+  const lines = toStatementLines(entries, history);
+
+  return (
+    <div className="bg-gray-800 rounded-3xl border border-gray-700 shadow-xl overflow-hidden">
+      <div className="p-8 border-b border-gray-700 bg-gray-850 flex items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-white mb-1">Extrato de Créditos</h2>
+          <p className="text-sm text-gray-400">Compras, sessões e ajustes, em minutos.</p>
+        </div>
+        <div className="text-right">
+          <p className="text-[10px] text-gray-400 uppercase font-bold tracking-wider">Saldo</p>
+          <p className="font-mono font-bold text-green-400">{formatDuration(balance)}</p>
+        </div>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="p-8 text-sm text-gray-500 text-center">Nenhum lançamento ainda.</p>
+      ) : (
+        <ul className="divide-y divide-gray-700/60">
+          {lines.map(line => (
+            <li key={line.key} className="flex items-center justify-between gap-4 px-8 py-4">
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-white truncate">{line.label}</p>
+                <p className="text-xs text-gray-500">{new Date(line.date).toLocaleString('pt-BR', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' })}</p>
+              </div>
+              <span className={`font-mono text-sm font-bold shrink-0 ${line.amount < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {formatAmount(line.amount)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CreditStatement;
@@ -1,14 +1,29 @@
 
 import React, { useState, useEffect } from 'react';
-import { User, RANKS, AvatarConfig, AvatarVoice, SessionResult } from '../types';
+import { User, RANKS, CEFR_LEVELS, AvatarConfig, AvatarVoice, Scenario, SessionResult, MistakeCategory, VocabularyCard, CreditLedgerEntry } from '../types';
+import { getRecordingUrl } from '../services/supabase';
+import VocabularyDeck from './VocabularyDeck';
+import CreditStatement from './CreditStatement';
+import { formatOffset } from '../utils/transcript';
+import { CONSISTENT_SESSIONS } from '../utils/cefr';
+import { SCORE_TREND_LABELS } from '../utils/sessionSegments';
+import { CURRENT_RUBRIC_VERSION, rubricVersionOf, scoresUnderRubric } from '../services/rubrics';
+import { sessionsToRescore, RescoreProgress } from '../services/rescoring';
+import { isDue } from '../utils/spacedRepetition';
 
 interface DashboardProps {
   user: User;
   history: SessionResult[];
-  onStartSession: (avatar: AvatarConfig) => void;
+  onStartSession: (avatar: AvatarConfig, scenario?: Scenario | null) => void;
   onLogout: () => void;
   onAddCredits: () => void;
   onUpdateProfile: (data: { name: string, surname: string }) => Promise<boolean>;
+  onRetryEvaluation: (session: SessionResult) => void;
+  rescoreProgress: RescoreProgress | null;
+  onRescoreHistory: () => void;
+  vocabulary: VocabularyCard[];
+  onReviewCard: (card: VocabularyCard, grade: number) => void;
+  creditStatement: CreditLedgerEntry[];
 }
 
 const AVATARS: AvatarConfig[] = [
@@ -17,6 +32,7 @@ const AVATARS: AvatarConfig[] = [
     accent: 'American',
     voice: AvatarVoice.Puck,
     systemInstruction: 'You are Léo, a bilingual English tutor for Portuguese speakers. You understand Portuguese perfectly. Your goal is to teach English to beginners. If the user speaks Portuguese, kindly respond in simple, slow English. You can use Portuguese to explain difficult concepts if necessary, but primarily use English to immerse the learner. Be very patient and encouraging.',
+    understandsPortuguese: true,
     description: 'Perfeito para iniciantes. Ele entende seu português e ajuda você a começar a falar inglês com confiança.',
     color: 'bg-orange-500',
     avatarImage: 'https://images.unsplash.com/photo-1599566150163-29194dcaad36?q=80&w=800&auto=format&fit=crop',
@@ -54,6 +70,51 @@ const AVATARS: AvatarConfig[] = [
   }
 ];
 
+// Prática guiada: qualquer avatar pode conduzir qualquer cenário
+const SCENARIOS: Scenario[] = [
+  {
+    id: 'restaurant',
+    title: 'No Restaurante',
+    description: 'Peça uma refeição em um restaurante e resolva um pequeno problema com o pedido.',
+    setting: 'A busy casual restaurant in New York at dinner time.',
+    tutorRole: 'the waiter or waitress serving the learner\'s table',
+    goals: [
+      'Ask for a table or confirm a reservation',
+      'Order a main course and a drink',
+      'Ask a question about an item on the menu',
+      'Politely report a problem with the order',
+      'Ask for the bill'
+    ]
+  },
+  {
+    id: 'job-interview',
+    title: 'Entrevista de Emprego',
+    description: 'Participe de uma entrevista para uma vaga em uma empresa internacional.',
+    setting: 'A video job interview for a position at an international tech company.',
+    tutorRole: 'the hiring manager conducting the interview',
+    goals: [
+      'Introduce yourself and your background',
+      'Describe a past achievement in detail',
+      'Talk about a weakness and how you deal with it',
+      'Explain why you want this job',
+      'Ask the interviewer a question about the role'
+    ]
+  },
+  {
+    id: 'airport-check-in',
+    title: 'Check-in no Aeroporto',
+    description: 'Faça o check-in para um voo internacional e despache sua bagagem.',
+    setting: 'The check-in desk of an international airport, two hours before a flight to London.',
+    tutorRole: 'the airline check-in agent',
+    goals: [
+      'Show your documents and confirm your destination',
+      'Check in a bag and answer the security questions',
+      'Ask for a window or aisle seat',
+      'Ask about the boarding time and gate'
+    ]
+  }
+];
+
 const FLUENCY_MAP: Record<string, string> = {
   'Beginner': 'Iniciante',
   'Intermediate': 'Intermediário',
@@ -61,6 +122,23 @@ const FLUENCY_MAP: Record<string, string> = {
   'Native': 'Nativo'
 };
 
+// Sessões exibidas no gráfico de progressão de nível
+const LEVEL_PROGRESS_SESSIONS = 12;
+
+const CEFR_SKILL_LABELS: Record<string, string> = {
+  vocabulary: 'Vocabulário',
+  grammar: 'Gramática',
+  fluency: 'Fluência',
+  pronunciation: 'Pronúncia'
+};
+
+const MISTAKE_CATEGORY_LABELS: Record<MistakeCategory, string> = {
+  grammar: 'Gramática',
+  vocabulary: 'Vocabulário',
+  pronunciation: 'Pronúncia',
+  word_order: 'Ordem das palavras'
+};
+
 const getScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-400 border-green-500/30 bg-green-500/10';
     if (score >= 50) return 'text-yellow-400 border-yellow-500/30 bg-yellow-500/10';
@@ -73,6 +151,14 @@ const getBarColor = (score: number) => {
     return 'bg-red-500';
 };
 
+const describeFillers = (counts: Record<string, number>) => {
+  const used = Object.keys(counts).filter(word => counts[word] > 0);
+  return {
+    total: used.reduce((sum, word) => sum + counts[word], 0),
+    detail: used.map(word => `${word} ${counts[word]}`).join(' · ') || 'nenhuma'
+  };
+};
+
 const formatDuration = (seconds: number) => {
   if (!seconds) return '0s';
   const mins = Math.floor(seconds / 60);
@@ -83,9 +169,53 @@ const formatDuration = (seconds: number) => {
   return `${secs}s`;
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, onLogout, onAddCredits, onUpdateProfile }) => {
-  const [activeTab, setActiveTab] = useState<'practice' | 'history' | 'profile'>('practice');
+/**
+ * Player da gravação de uma sessão. A URL assinada só é gerada quando o card é expandido.
+ */
+const SessionRecordingPlayer: React.FC<{ path: string, date: string }> = ({ path, date }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    getRecordingUrl(path).then(signedUrl => {
+      if (cancelled) return;
+      if (signedUrl) setUrl(signedUrl);
+      else setFailed(true);
+    });
+    return () => { cancelled = true; };
+  }, [path]);
+
+  if (failed) {
+    return <p className="text-xs text-gray-500 italic">Gravação indisponível (pode ter expirado).</p>;
+  }
+  if (!url) {
+    return <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>;
+  }
+
+  const extension = path.split('.').pop();
+  return (
+    <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-3">
+      <audio controls src={url} className="flex-1 h-10" />
+      <a
+        href={url}
+        download={`fluentai-${date.slice(0, 10)}.${extension}`}
+        className="text-center bg-gray-700 hover:bg-gray-600 text-white text-xs font-bold px-4 py-2.5 rounded-lg transition-colors"
+      >
+        Baixar
+      </a>
+    </div>
+  );
+};
+
+// Sessões antigas não têm status: foram avaliadas na hora
+const isEvaluated = (session: SessionResult) => !session.evaluationStatus || session.evaluationStatus === 'done';
+
+const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, onLogout, onAddCredits, onUpdateProfile, onRetryEvaluation, rescoreProgress, onRescoreHistory, vocabulary, onReviewCard, creditStatement }) => {
+  const [activeTab, setActiveTab] = useState<'practice' | 'history' | 'vocabulary' | 'profile'>('practice');
   const [expandedHistoryId, setExpandedHistoryId] = useState<number | null>(null);
+  const [selectedScenario, setSelectedScenario] = useState<Scenario | null>(null);
+  const [expandedMistakesId, setExpandedMistakesId] = useState<number | null>(null);
   
   const [profileForm, setProfileForm] = useState({ name: user.name || '', surname: user.surname || '' });
   const [isSaving, setIsSaving] = useState(false);
@@ -95,6 +225,17 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
     setProfileForm({ name: user.name || '', surname: user.surname || '' });
   }, [user]);
 
+  // Mais antigas primeiro, só sessões com CEFR na rubrica atual (notas de rubricas diferentes não se comparam)
+  const levelProgress = history
+    .map(session => ({ date: session.date, cefr: scoresUnderRubric(session, CURRENT_RUBRIC_VERSION)?.cefr }))
+    .filter(s => s.cefr)
+    .slice(0, LEVEL_PROGRESS_SESSIONS)
+    .reverse();
+  const outdatedSessions = sessionsToRescore(history, CURRENT_RUBRIC_VERSION).length;
+  // Notas da lista na rubrica atual quando a sessão já foi reavaliada; as demais ficam marcadas com a rubrica delas
+  const historyScores = history.map(session => scoresUnderRubric(session, CURRENT_RUBRIC_VERSION) || scoresUnderRubric(session, rubricVersionOf(session))!);
+  const dueCards = vocabulary.filter(card => isDue(card)).length;
+
   const nextRank = RANKS.find(r => r.minPoints > user.points) || RANKS[RANKS.length - 1];
   const progressPercent = Math.min(100, (user.points / nextRank.minPoints) * 100);
 
@@ -165,7 +306,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
       </header>
 
       <main className="max-w-6xl mx-auto space-y-12">
-        <section className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <section className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
           <div className="bg-gradient-to-br from-gray-800 to-gray-800/50 backdrop-blur p-6 rounded-2xl border border-gray-700 shadow-xl">
             <h3 className="text-gray-400 text-sm mb-2 font-medium uppercase tracking-wider">Pontos Totais</h3>
             <p className="text-5xl font-extrabold text-transparent bg-clip-text bg-gradient-to-r from-yellow-400 to-orange-500">{user.points}</p>
@@ -184,6 +325,30 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
             <h3 className="text-gray-400 text-sm mb-2 font-medium uppercase tracking-wider">Sessões Completas</h3>
             <p className="text-5xl font-extrabold text-white">{user.sessionsCompleted}</p>
           </div>
+          <div className="bg-gradient-to-br from-gray-800 to-gray-800/50 backdrop-blur p-6 rounded-2xl border border-gray-700 shadow-xl">
+            <h3 className="text-gray-400 text-sm mb-2 font-medium uppercase tracking-wider">Nível CEFR</h3>
+            <div className="flex items-end justify-between gap-4">
+              <p className="text-5xl font-extrabold text-blue-400">{user.cefrLevel || '—'}</p>
+              {levelProgress.length > 1 && (
+                <div className="flex items-end gap-1 h-12" title={`Nível demonstrado nas últimas sessões (rubrica ${CURRENT_RUBRIC_VERSION})`}>
+                  {levelProgress.map((session, idx) => {
+                    const level = session.cefr!.level;
+                    return (
+                      <div
+                        key={idx}
+                        className="w-2 rounded-sm bg-blue-500/60"
+                        style={{ height: `${((CEFR_LEVELS.indexOf(level) + 1) / CEFR_LEVELS.length) * 100}%` }}
+                        title={`${new Date(session.date).toLocaleDateString()}: ${level}`}
+                      ></div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+            <p className="text-[10px] text-gray-500 mt-2">
+              {user.cefrLevel ? `Muda quando ${CONSISTENT_SESSIONS} sessões seguidas mostram um novo nível.` : 'Complete uma sessão para estimar seu nível.'}
+            </p>
+          </div>
         </section>
 
         <div className="flex space-x-8 border-b border-gray-700 pb-1">
@@ -201,6 +366,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
              Histórico
              {activeTab === 'history' && <span className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-400 rounded-full"></span>}
            </button>
+           <button 
+             onClick={() => setActiveTab('vocabulary')}
+             className={`pb-3 text-lg font-medium transition-all relative flex items-center gap-2 ${activeTab === 'vocabulary' ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}
+           >
+             Vocabulário
+             {dueCards > 0 && (
+               <span className="text-[10px] font-bold min-w-[1.25rem] h-5 px-1.5 rounded-full bg-yellow-500 text-gray-900 flex items-center justify-center" title="Cartões para revisar hoje">{dueCards}</span>
+             )}
+             {activeTab === 'vocabulary' && <span className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-400 rounded-full"></span>}
+           </button>
            <button 
              onClick={() => setActiveTab('profile')}
              className={`pb-3 text-lg font-medium transition-all relative ${activeTab === 'profile' ? 'text-blue-400' : 'text-gray-400 hover:text-white'}`}
@@ -212,7 +387,42 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
 
         {activeTab === 'practice' && (
         <section className="animate-fade-in">
-          <div className="flex items-end justify-between mb-6">
+          <div className="flex items-end justify-between mb-4">
+             <h2 className="text-xl font-bold text-gray-200">Escolha o tipo de prática</h2>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+            <button
+              onClick={() => setSelectedScenario(null)}
+              className={`text-left p-4 rounded-2xl border transition-all ${!selectedScenario ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800 border-gray-700 hover:border-gray-500'}`}
+            >
+              <h3 className="font-bold text-white mb-1">Conversa Livre</h3>
+              <p className="text-xs text-gray-400 leading-relaxed">Converse sobre qualquer assunto com o avatar escolhido.</p>
+            </button>
+            {SCENARIOS.map(scenario => (
+              <button
+                key={scenario.id}
+                onClick={() => setSelectedScenario(scenario)}
+                className={`text-left p-4 rounded-2xl border transition-all ${selectedScenario?.id === scenario.id ? 'bg-blue-600/20 border-blue-500' : 'bg-gray-800 border-gray-700 hover:border-gray-500'}`}
+              >
+                <h3 className="font-bold text-white mb-1">{scenario.title}</h3>
+                <p className="text-xs text-gray-400 leading-relaxed">{scenario.description}</p>
+              </button>
+            ))}
+          </div>
+
+          {selectedScenario && (
+            <div className="mb-6 p-4 bg-gray-800/50 rounded-2xl border border-gray-700 animate-fade-in">
+              <p className="text-xs text-gray-500 font-bold uppercase tracking-widest mb-2">Metas do cenário</p>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+                {selectedScenario.goals.map(goal => (
+                  <li key={goal} className="text-sm text-gray-300 flex gap-2"><span className="text-blue-400">○</span>{goal}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex items-end justify-between mb-6 mt-8">
              <h2 className="text-xl font-bold text-gray-200">Selecione um Avatar</h2>
           </div>
           
@@ -221,7 +431,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
               <div 
                 key={avatar.name} 
                 className="group relative bg-gray-800 rounded-3xl overflow-hidden cursor-pointer border border-gray-700 hover:border-blue-500/50 transition-all duration-300 hover:shadow-2xl hover:shadow-blue-500/10 hover:-translate-y-1"
-                onClick={() => onStartSession(avatar)}
+                onClick={() => onStartSession(avatar, selectedScenario)}
               >
                 <div className="h-80 w-full relative overflow-hidden">
                    <img 
@@ -258,6 +468,22 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
 
         {activeTab === 'history' && (
         <section className="animate-fade-in space-y-4">
+             {(outdatedSessions > 0 || rescoreProgress) && (
+                 <div className="flex flex-col sm:flex-row items-center justify-between gap-3 p-4 rounded-2xl border border-blue-500/30 bg-blue-500/10">
+                     <p className="text-sm text-blue-200">
+                         {rescoreProgress
+                             ? `Reavaliando com a rubrica ${CURRENT_RUBRIC_VERSION}: ${rescoreProgress.done + rescoreProgress.failed}/${rescoreProgress.total}`
+                             : `${outdatedSessions} ${outdatedSessions === 1 ? 'sessão foi avaliada' : 'sessões foram avaliadas'} com outra rubrica e não ${outdatedSessions === 1 ? 'se compara' : 'se comparam'} às notas atuais (${CURRENT_RUBRIC_VERSION}).`}
+                     </p>
+                     <button
+                         onClick={onRescoreHistory}
+                         disabled={!!rescoreProgress}
+                         className="shrink-0 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-xs font-bold px-4 py-2 rounded-lg transition-colors"
+                     >
+                         {rescoreProgress ? 'Reavaliando...' : 'Reavaliar'}
+                     </button>
+                 </div>
+             )}
              {history.length === 0 ? (
                  <div className="text-center py-20 bg-gray-800/30 rounded-3xl border border-gray-700 border-dashed">
                      <p className="text-gray-400 text-lg">Nenhuma sessão gravada ainda. Comece a praticar!</p>
@@ -270,16 +496,37 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
                             onClick={() => toggleHistoryItem(idx)}
                          >
                              <div className="flex items-center gap-4 w-full md:w-auto mb-4 md:mb-0">
+                                 {!isEvaluated(session) ? (
+                                 <div className={`w-14 h-14 rounded-full flex flex-col items-center justify-center border-4 ${
+                                     session.evaluationStatus === 'pending' ? 'border-blue-500/30 bg-blue-500/10 text-blue-300 animate-pulse' : 'border-gray-600 bg-gray-700/40 text-gray-400'
+                                 }`}>
+                                     <span className="text-[9px] uppercase font-bold tracking-wide text-center leading-tight">{session.evaluationStatus === 'pending' ? 'avaliando...' : 'falhou'}</span>
+                                 </div>
+                                 ) : (
                                  <div className={`w-14 h-14 rounded-full flex flex-col items-center justify-center border-4 ${
-                                     session.overallScore >= 80 ? 'border-green-500/30 bg-green-500/10 text-green-400' :
-                                     session.overallScore >= 50 ? 'border-yellow-500/30 bg-yellow-500/10 text-yellow-400' :
+                                     historyScores[idx].overallScore >= 80 ? 'border-green-500/30 bg-green-500/10 text-green-400' :
+                                     historyScores[idx].overallScore >= 50 ? 'border-yellow-500/30 bg-yellow-500/10 text-yellow-400' :
                                      'border-red-500/30 bg-red-500/10 text-red-400'
                                  }`}>
-                                     <span className="font-extrabold text-lg leading-none">{session.overallScore}</span>
-                                     <span className="text-[9px] uppercase font-bold tracking-wide opacity-70">Geral</span>
+                                     <span className="font-extrabold text-lg leading-none">{historyScores[idx].overallScore}</span>
+                                     <span className="text-[9px] uppercase font-bold tracking-wide opacity-70" title={historyScores[idx].rubricVersion === CURRENT_RUBRIC_VERSION ? undefined : `Avaliada com a rubrica ${historyScores[idx].rubricVersion}: não se compara às notas atuais`}>
+                                         {historyScores[idx].rubricVersion === CURRENT_RUBRIC_VERSION ? 'Geral' : historyScores[idx].rubricVersion}
+                                     </span>
                                  </div>
+                                 )}
                                  <div className="flex-1">
-                                     <h4 className="font-bold text-lg text-white">Conversa com {session.avatarName}</h4>
+                                     <h4 className="font-bold text-lg text-white flex items-center gap-2">
+                                         Conversa com {session.avatarName}
+                                         {session.cefr && (
+                                             <span className="text-[10px] font-bold px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded uppercase tracking-wider">{session.cefr.level}</span>
+                                         )}
+                                         {session.scenario && (
+                                             <span className="text-[10px] font-bold px-2 py-0.5 bg-blue-500/20 text-blue-300 rounded uppercase tracking-wider">{session.scenario.title}</span>
+                                         )}
+                                         {session.inputMode === 'text' && (
+                                             <span className="text-[10px] font-bold px-2 py-0.5 bg-gray-700 text-gray-300 rounded uppercase tracking-wider">Texto</span>
+                                         )}
+                                     </h4>
                                      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-gray-400 mt-0.5">
                                          <span>{new Date(session.date).toLocaleDateString()} • {new Date(session.date).toLocaleTimeString()}</span>
                                          <div className="w-1 h-1 rounded-full bg-gray-600"></div>
@@ -292,26 +539,28 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
                              </div>
                              
                              <div className="flex flex-col md:flex-row items-center gap-6 w-full md:w-auto justify-between md:justify-end">
+                                 {isEvaluated(session) && (
                                  <div className="hidden sm:flex flex-col gap-2 w-36 md:mr-4">
-                                     <div className="flex items-center gap-2" title={`Vocabulário: ${session.vocabularyScore}`}>
+                                     <div className="flex items-center gap-2" title={`Vocabulário: ${historyScores[idx].vocabularyScore}`}>
                                          <span className="text-[10px] w-6 text-gray-500 font-bold uppercase">Voc</span>
                                          <div className="h-1.5 flex-1 bg-gray-700 rounded-full overflow-hidden">
-                                            <div className={`h-full rounded-full ${getBarColor(session.vocabularyScore)}`} style={{width: `${session.vocabularyScore}%`}}></div>
+                                            <div className={`h-full rounded-full ${getBarColor(historyScores[idx].vocabularyScore)}`} style={{width: `${historyScores[idx].vocabularyScore}%`}}></div>
                                          </div>
                                      </div>
-                                     <div className="flex items-center gap-2" title={`Gramática: ${session.grammarScore}`}>
+                                     <div className="flex items-center gap-2" title={`Gramática: ${historyScores[idx].grammarScore}`}>
                                          <span className="text-[10px] w-6 text-gray-500 font-bold uppercase">Gra</span>
                                          <div className="h-1.5 flex-1 bg-gray-700 rounded-full overflow-hidden">
-                                            <div className={`h-full rounded-full ${getBarColor(session.grammarScore)}`} style={{width: `${session.grammarScore}%`}}></div>
+                                            <div className={`h-full rounded-full ${getBarColor(historyScores[idx].grammarScore)}`} style={{width: `${historyScores[idx].grammarScore}%`}}></div>
                                          </div>
                                      </div>
-                                     <div className="flex items-center gap-2" title={`Pronúncia: ${session.pronunciationScore}`}>
+                                     <div className="flex items-center gap-2" title={`Pronúncia: ${historyScores[idx].pronunciationScore}`}>
                                          <span className="text-[10px] w-6 text-gray-500 font-bold uppercase">Pro</span>
                                          <div className="h-1.5 flex-1 bg-gray-700 rounded-full overflow-hidden">
-                                            <div className={`h-full rounded-full ${getBarColor(session.pronunciationScore)}`} style={{width: `${session.pronunciationScore}%`}}></div>
+                                            <div className={`h-full rounded-full ${getBarColor(historyScores[idx].pronunciationScore)}`} style={{width: `${historyScores[idx].pronunciationScore}%`}}></div>
                                          </div>
                                      </div>
                                  </div>
+                                 )}
 
                                  <div className="flex items-center gap-6">
                                     <div className="text-right hidden md:block">
@@ -325,6 +574,19 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
 
                          {expandedHistoryId === idx && (
                              <div className="px-6 pb-6 pt-2 border-t border-gray-700 bg-gray-800/50">
+                                 {session.evaluationStatus === 'failed' && (
+                                     <div className="flex flex-col sm:flex-row items-center justify-between gap-3 p-4 mb-6 rounded-xl border border-red-500/30 bg-red-500/10">
+                                         <p className="text-sm text-red-300">Não conseguimos avaliar esta conversa. A transcrição está salva e os pontos entram quando a avaliação der certo.</p>
+                                         <button
+                                             onClick={(e) => { e.stopPropagation(); onRetryEvaluation(session); }}
+                                             className="shrink-0 bg-red-500/20 hover:bg-red-500/30 text-red-200 text-xs font-bold px-4 py-2 rounded-lg transition-colors"
+                                         >
+                                             Tentar novamente
+                                         </button>
+                                     </div>
+                                 )}
+
+                                 {isEvaluated(session) && (
                                  <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 mb-6">
                                      <div className={`p-4 rounded-xl border ${getScoreColor(session.vocabularyScore)} flex flex-col items-center justify-center`}>
                                          <span className="text-xs font-bold uppercase tracking-widest mb-1 opacity-80">Vocabulário</span>
@@ -342,17 +604,55 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
                                      </div>
                                      <div className={`p-4 rounded-xl border ${getScoreColor(session.pronunciationScore)} flex flex-col items-center justify-center`}>
                                          <span className="text-xs font-bold uppercase tracking-widest mb-1 opacity-80">Pronúncia</span>
-                                         <span className="text-3xl font-extrabold">{session.pronunciationScore}</span>
+                                         <span className="text-3xl font-extrabold">{session.inputMode === 'text' ? '—' : session.pronunciationScore}</span>
                                          <div className="w-full bg-gray-700/50 h-1.5 rounded-full mt-2 overflow-hidden">
                                             <div className="bg-current h-full rounded-full opacity-60" style={{ width: `${session.pronunciationScore}%` }}></div>
                                          </div>
+                                         {session.inputMode !== 'text' && session.pronunciationEstimated && (
+                                            <div className="text-[10px] mt-2 font-medium opacity-70 uppercase" title="Sem áudio da sua fala: nota estimada pela transcrição">Estimada</div>
+                                         )}
                                      </div>
                                      <div className="p-4 rounded-xl border border-blue-500/30 bg-blue-500/10 text-blue-400 flex flex-col items-center justify-center">
-                                         <span className="text-xs font-bold uppercase tracking-widest mb-1 opacity-80">Fluência</span>
-                                         <span className="text-xl font-extrabold text-center leading-tight">{FLUENCY_MAP[session.fluencyRating] || '---'}</span>
-                                         <div className="text-[10px] mt-2 font-medium opacity-70 uppercase">Avaliação de Nível</div>
+                                         {session.cefr ? (
+                                             <>
+                                                 <span className="text-xs font-bold uppercase tracking-widest mb-1 opacity-80">Nível CEFR</span>
+                                                 <span className="text-3xl font-extrabold">{session.cefr.level}</span>
+                                                 <div className="text-[10px] mt-2 font-medium opacity-70 uppercase text-center">
+                                                     {Object.entries(session.cefr.skills).map(([skill, level]) => `${CEFR_SKILL_LABELS[skill] || skill} ${level}`).join(' · ')}
+                                                 </div>
+                                             </>
+                                         ) : (
+                                             <>
+                                                 <span className="text-xs font-bold uppercase tracking-widest mb-1 opacity-80">Fluência</span>
+                                                 <span className="text-xl font-extrabold text-center leading-tight">{FLUENCY_MAP[session.fluencyRating] || '---'}</span>
+                                                 <div className="text-[10px] mt-2 font-medium opacity-70 uppercase">Avaliação de Nível</div>
+                                             </>
+                                         )}
                                      </div>
                                  </div>
+                                 )}
+
+                                 {session.metrics && (
+                                     <div className="mb-6">
+                                         <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest mb-2">Métricas da fala · medidas na conversa, sem IA</p>
+                                         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-3">
+                                             {[
+                                                 { label: 'Você falou', value: `${Math.round(session.metrics.userSpeakingShare * 100)}%`, hint: `${formatDuration(session.metrics.userSpeakingSeconds)} você · ${formatDuration(session.metrics.tutorSpeakingSeconds)} tutor` },
+                                                 { label: 'Palavras/min', value: session.metrics.wordsPerMinute ?? '—', hint: `${session.metrics.userWordCount} palavras` },
+                                                 { label: 'Diversidade', value: `${Math.round(session.metrics.lexicalDiversity * 100)}%`, hint: `TTR ${session.metrics.typeTokenRatio}` },
+                                                 { label: 'Palavras/fala', value: session.metrics.averageUtteranceLength, hint: 'média por turno' },
+                                                 { label: 'Hesitações', value: describeFillers(session.metrics.fillerCounts).total, hint: describeFillers(session.metrics.fillerCounts).detail },
+                                                 { label: 'Português', value: `${Math.round(session.metrics.portugueseWordRatio * 100)}%`, hint: 'das suas palavras' }
+                                             ].map(metric => (
+                                                 <div key={metric.label} className="p-3 rounded-xl border border-gray-700/50 bg-gray-900/50" title={metric.hint}>
+                                                     <span className="block text-[10px] font-bold uppercase tracking-widest text-gray-500">{metric.label}</span>
+                                                     <span className="block text-xl font-extrabold text-white">{metric.value}</span>
+                                                     <span className="block text-[10px] text-gray-500 truncate">{metric.hint}</span>
+                                                 </div>
+                                             ))}
+                                         </div>
+                                     </div>
+                                 )}
 
                                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                                      <div>
@@ -360,8 +660,11 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
                                             <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
                                             Feedback do Tutor
                                          </h5>
-                                         <div className="text-gray-300 leading-relaxed text-sm bg-gray-900/50 p-4 rounded-xl border border-gray-700/50 h-full">
-                                             {session.feedback}
+                                         <div className="text-gray-300 leading-relaxed text-sm bg-gray-900/50 p-4 rounded-xl border border-gray-700/50 h-full whitespace-pre-line">
+                                             {session.evaluationStatus === 'pending' ? 'Avaliando sua conversa...' : session.feedback || '—'}
+                                             {session.evaluatedBy && (
+                                                 <span className="block mt-3 text-[10px] text-gray-500 uppercase tracking-wider">Avaliado por {session.evaluatedBy.provider} · {session.evaluatedBy.model}</span>
+                                             )}
                                          </div>
                                      </div>
                                      
@@ -370,11 +673,156 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
                                             <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"></path></svg>
                                             Trecho da Conversa
                                          </h5>
-                                         <div className="text-gray-500 text-xs italic bg-gray-900 p-4 rounded-xl font-mono h-32 overflow-y-auto custom-scrollbar">
-                                             {session.transcript}
-                                         </div>
+                                         {session.turns?.length ? (
+                                             <div className="text-xs bg-gray-900 p-4 rounded-xl h-32 overflow-y-auto custom-scrollbar space-y-2">
+                                                 {session.turns.map((turn, idx) => (
+                                                     <p key={idx} className="leading-relaxed">
+                                                         <span className="font-mono text-gray-600 mr-2">{formatOffset(turn.audioStartOffset)}</span>
+                                                         <span className={`font-bold mr-1 ${turn.speaker === 'user' ? 'text-blue-400' : 'text-gray-400'}`}>{turn.speaker === 'user' ? 'Você:' : `${session.avatarName}:`}</span>
+                                                         <span className="text-gray-400">{turn.text}</span>
+                                                         {turn.interrupted && <span className="ml-2 text-[10px] text-gray-600 italic">(interrompido)</span>}
+                                                     </p>
+                                                 ))}
+                                             </div>
+                                         ) : (
+                                             <div className="text-gray-500 text-xs italic bg-gray-900 p-4 rounded-xl font-mono h-32 overflow-y-auto custom-scrollbar">
+                                                 {session.transcript}
+                                             </div>
+                                         )}
                                      </div>
                                  </div>
+
+                                 {!!session.cefr?.descriptors.length && (
+                                     <div className="mt-6">
+                                         <h5 className="font-semibold text-white mb-2 text-sm uppercase tracking-wide flex items-center gap-2">
+                                            <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                                            Por que {session.cefr.level}?
+                                         </h5>
+                                         <ul className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50 space-y-1">
+                                             {session.cefr.descriptors.map(descriptor => (
+                                                 <li key={descriptor} className="text-sm text-gray-300 flex gap-2"><span className="text-blue-400">✓</span>{descriptor}</li>
+                                             ))}
+                                         </ul>
+                                     </div>
+                                 )}
+
+                                 {!!session.pronunciationIssues?.length && (
+                                     <div className="mt-6">
+                                         <h5 className="font-semibold text-white mb-2 text-sm uppercase tracking-wide flex items-center gap-2">
+                                            <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"></path></svg>
+                                            Pronúncia: palavras para treinar
+                                         </h5>
+                                         <ul className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                             {session.pronunciationIssues.map((issue, issueIdx) => (
+                                                 <li key={issueIdx} className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50">
+                                                     <p className="text-sm text-white font-bold">
+                                                         {issue.word}
+                                                         {issue.phoneme && <span className="ml-2 font-mono text-xs text-blue-300">{issue.phoneme}</span>}
+                                                         {issue.heardAs && <span className="ml-2 text-xs text-gray-500 font-normal">soou como “{issue.heardAs}”</span>}
+                                                     </p>
+                                                     <p className="mt-1 text-xs text-gray-400 leading-relaxed">{issue.tip}</p>
+                                                 </li>
+                                             ))}
+                                         </ul>
+                                     </div>
+                                 )}
+
+                                 {!!session.mistakes?.length && (
+                                     <div className="mt-6">
+                                         <button
+                                            onClick={() => setExpandedMistakesId(expandedMistakesId === idx ? null : idx)}
+                                            className="w-full font-semibold text-white mb-2 text-sm uppercase tracking-wide flex items-center gap-2"
+                                         >
+                                            <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+                                            Seus erros ({session.mistakes.length})
+                                            <svg className={`w-4 h-4 ml-auto text-gray-500 transform transition-transform ${expandedMistakesId === idx ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 9l-7 7-7-7"></path></svg>
+                                         </button>
+                                         {expandedMistakesId === idx && (
+                                             <ul className="space-y-3 animate-fade-in">
+                                                 {session.mistakes.map((mistake, mistakeIdx) => (
+                                                     <li key={mistakeIdx} className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50">
+                                                         <span className="text-[10px] font-bold px-2 py-0.5 bg-gray-700 text-gray-300 rounded uppercase tracking-wider">{MISTAKE_CATEGORY_LABELS[mistake.category] || mistake.category}</span>
+                                                         <p className="mt-2 text-sm text-red-300/80 line-through">{mistake.original}</p>
+                                                         <p className="text-sm text-green-400 font-medium">{mistake.corrected}</p>
+                                                         {mistake.explanation && <p className="mt-1 text-xs text-gray-400 leading-relaxed">{mistake.explanation}</p>}
+                                                     </li>
+                                                 ))}
+                                             </ul>
+                                         )}
+                                     </div>
+                                 )}
+
+                                 {session.rescores && session.rescores.length > 0 && isEvaluated(session) && (
+                                     <div className="mt-6">
+                                         <h5 className="font-semibold text-white mb-2 text-sm uppercase tracking-wide">Notas por rubrica</h5>
+                                         <div className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50 space-y-2">
+                                             {[scoresUnderRubric(session, rubricVersionOf(session))!, ...session.rescores].map((scores, scoresIdx) => (
+                                                 <div key={scores.rubricVersion} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm" title={scores.feedback}>
+                                                     <span className="text-[10px] font-bold px-2 py-0.5 bg-gray-700 text-gray-300 rounded uppercase tracking-wider">
+                                                         {scores.rubricVersion}{scoresIdx === 0 ? ' · original' : ''}
+                                                     </span>
+                                                     <span className="font-bold text-white">{scores.overallScore}</span>
+                                                     <span className="text-gray-400">Voc {scores.vocabularyScore} · Gra {scores.grammarScore}{session.inputMode === 'text' ? '' : ` · Pro ${scores.pronunciationScore}`}</span>
+                                                     {scores.cefr && <span className="text-blue-300">{scores.cefr.level}</span>}
+                                                 </div>
+                                             ))}
+                                         </div>
+                                     </div>
+                                 )}
+
+                                 {session.segments && session.segments.length > 1 && isEvaluated(session) && (
+                                     <div className="mt-6">
+                                         <h5 className="font-semibold text-white mb-2 text-sm uppercase tracking-wide flex items-center gap-2">
+                                            <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z"></path></svg>
+                                            Nota por trecho
+                                            {session.scoreTrend && (
+                                                <span className={`text-[10px] font-bold px-2 py-0.5 rounded uppercase tracking-wider ${
+                                                    session.scoreTrend === 'improved' ? 'bg-green-500/20 text-green-300' :
+                                                    session.scoreTrend === 'declined' ? 'bg-red-500/20 text-red-300' : 'bg-gray-700 text-gray-300'
+                                                }`}>{SCORE_TREND_LABELS[session.scoreTrend]}</span>
+                                            )}
+                                         </h5>
+                                         <div className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50 space-y-2">
+                                             {session.segments.map(segment => (
+                                                 <div key={segment.startOffset} className="flex items-center gap-3" title={segment.feedback}>
+                                                     <span className="text-[10px] font-mono text-gray-500 w-24 shrink-0">{formatOffset(segment.startOffset)}–{formatOffset(segment.endOffset)}</span>
+                                                     <div className="h-1.5 flex-1 bg-gray-700 rounded-full overflow-hidden">
+                                                         <div className={`h-full rounded-full ${getBarColor(segment.overallScore)}`} style={{ width: `${segment.overallScore}%` }}></div>
+                                                     </div>
+                                                     <span className="text-xs font-bold text-white w-8 text-right">{segment.overallScore}</span>
+                                                 </div>
+                                             ))}
+                                         </div>
+                                     </div>
+                                 )}
+
+                                 {session.scenario && isEvaluated(session) && (
+                                     <div className="mt-6">
+                                         <h5 className="font-semibold text-white mb-2 text-sm uppercase tracking-wide flex items-center gap-2">
+                                            <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"></path></svg>
+                                            Metas: {session.scenario.title} ({session.scenario.goals.filter(g => g.reached).length}/{session.scenario.goals.length})
+                                         </h5>
+                                         <ul className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1">
+                                             {session.scenario.goals.map(g => (
+                                                 <li key={g.goal} className={`text-sm flex gap-2 ${g.reached ? 'text-green-400' : 'text-gray-500'}`}>
+                                                     <span>{g.reached ? '✓' : '○'}</span>{g.goal}
+                                                 </li>
+                                             ))}
+                                         </ul>
+                                     </div>
+                                 )}
+
+                                 {session.recordingPath && (
+                                     <div className="mt-6">
+                                         <h5 className="font-semibold text-white mb-2 text-sm uppercase tracking-wide flex items-center gap-2">
+                                            <svg className="w-4 h-4 text-blue-400" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3"></path></svg>
+                                            Gravação da Sessão
+                                         </h5>
+                                         <div className="bg-gray-900/50 p-4 rounded-xl border border-gray-700/50">
+                                             <SessionRecordingPlayer path={session.recordingPath} date={session.date} />
+                                         </div>
+                                     </div>
+                                 )}
                              </div>
                          )}
                      </div>
@@ -383,6 +831,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
         </section>
         )}
 
+        {activeTab === 'vocabulary' && (
+        <section className="animate-fade-in">
+          <VocabularyDeck cards={vocabulary} onReview={onReviewCard} />
+        </section>
+        )}
+
         {activeTab === 'profile' && (
         <section className="animate-fade-in max-w-2xl">
             <div className="bg-gray-800 rounded-3xl border border-gray-700 shadow-xl overflow-hidden">
@@ -468,6 +922,10 @@ const Dashboard: React.FC<DashboardProps> = ({ user, history, onStartSession, on
                     </button>
                 </form>
             </div>
+
+            <div className="mt-8">
+                <CreditStatement entries={creditStatement} history={history} balance={user.credits} />
+            </div>
         </section>
         )}
       </main>
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { UserPreferences } from '../types';
+
+type DevicePreferences = Pick<UserPreferences, 'audioInputId' | 'videoInputId' | 'audioOutputId'>;
+
+interface DeviceCheckProps {
+  value: DevicePreferences;
+  onChange: (changes: DevicePreferences) => void;
+}
+
+// setSinkId em AudioContext ainda não existe em todos os navegadores (ex.: Safari/Firefox)
+const supportsOutputSelection = typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+/**
+ * Pré-teste antes da sessão: escolha de microfone/câmera/alto-falante,
+ * medidor de nível do microfone e tom de teste.
+ */
+const DeviceCheck: React.FC<DeviceCheckProps> = ({ value, onChange }) => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [permissionError, setPermissionError] = useState(false);
+  const [isPlayingTone, setIsPlayingTone] = useState(false);
+
+  const videoPreviewRef = useRef<HTMLVideoElement>(null);
+  // Atualizado direto no DOM a cada frame, sem re-renderizar o componente
+  const levelBarRef = useRef<HTMLDivElement>(null);
+
+  // Preview do microfone e câmera selecionados (reiniciado a cada troca de dispositivo)
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let audioContext: AudioContext | null = null;
+    let rafId: number;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          audio: value.audioInputId ? { deviceId: value.audioInputId } : true,
+          video: value.videoInputId ? { deviceId: value.videoInputId } : true,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setPermissionError(false);
+
+        // Os rótulos dos dispositivos só aparecem depois que a permissão é concedida
+        const allDevices = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) setDevices(allDevices.filter(d => d.deviceId));
+
+        if (videoPreviewRef.current) {
+          videoPreviewRef.current.srcObject = stream;
+        }
+
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+        audioContext = new AudioContextClass();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 512;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+        const samples = new Float32Array(analyser.fftSize);
+
+        const updateLevel = () => {
+          analyser.getFloatTimeDomainData(samples);
+          let sum = 0;
+          for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+          // Escala aproximada: fala normal fica entre 40% e 80% da barra
+          const level = Math.min(1, Math.sqrt(sum / samples.length) * 6);
+          if (levelBarRef.current) {
+            levelBarRef.current.style.width = `${level * 100}%`;
+            levelBarRef.current.style.backgroundColor = level > 0.85 ? '#ef4444' : level > 0.15 ? '#22c55e' : '#6b7280';
+          }
+          rafId = requestAnimationFrame(updateLevel);
+        };
+        updateLevel();
+      } catch (err) {
+        console.error('[DeviceCheck] Falha ao acessar dispositivos:', err);
+        if (!cancelled) setPermissionError(true);
+      }
+    };
+    start();
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(rafId);
+      stream?.getTracks().forEach(track => track.stop());
+      audioContext?.close();
+    };
+  }, [value.audioInputId, value.videoInputId]);
+
+  const handlePlayTestTone = async () => {
+    if (isPlayingTone) return;
+    setIsPlayingTone(true);
+
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx: AudioContext = new AudioContextClass();
+    try {
+      if (value.audioOutputId && supportsOutputSelection) {
+        await (ctx as any).setSinkId(value.audioOutputId);
+      }
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.frequency.value = 440;
+      // Envelope curto para evitar estalos no início/fim do tom
+      gain.gain.setValueAtTime(0, ctx.currentTime);
+      gain.gain.linearRampToValueAtTime(0.3, ctx.currentTime + 0.05);
+      gain.gain.setValueAtTime(0.3, ctx.currentTime + 0.9);
+      gain.gain.linearRampToValueAtTime(0, ctx.currentTime + 1);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start();
+      oscillator.stop(ctx.currentTime + 1);
+      oscillator.onended = () => {
+        ctx.close();
+        setIsPlayingTone(false);
+      };
+    } catch (err) {
+      console.error('[DeviceCheck] Falha no tom de teste:', err);
+      ctx.close();
+      setIsPlayingTone(false);
+    }
+  };
+
+  const renderSelect = (kind: MediaDeviceKind, label: string, key: keyof DevicePreferences) => {
+    const options = devices.filter(d => d.kind === kind);
+    return (
+      <div>
+        <label className="block text-[10px] text-gray-500 font-bold uppercase tracking-widest mb-1">{label}</label>
+        <select
+          value={value[key] || ''}
+          onChange={(e) => onChange({ [key]: e.target.value || undefined })}
+          className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white text-xs focus:ring-2 focus:ring-blue-500 outline-none truncate"
+        >
+          <option value="">Padrão do sistema</option>
+          {options.map((device, idx) => (
+            <option key={device.deviceId} value={device.deviceId}>{device.label || `${label} ${idx + 1}`}</option>
+          ))}
+        </select>
+      </div>
+    );
+  };
+
+  if (permissionError) {
+    return (
+      <div className="mb-4 px-4 py-3 bg-red-500/10 border border-red-500/20 rounded-xl text-left text-xs text-red-300">
+        Não foi possível acessar microfone/câmera. Verifique as permissões do navegador ou pratique por texto.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 p-3 bg-gray-900/50 rounded-xl border border-gray-700 text-left space-y-3">
+      <div className="flex gap-3 items-center">
+        <video ref={videoPreviewRef} autoPlay muted playsInline className="w-16 h-16 rounded-lg object-cover bg-gray-900 transform scale-x-[-1] shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest mb-1.5">Nível do microfone</p>
+          <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+            <div ref={levelBarRef} className="h-full w-0 rounded-full bg-gray-500 transition-[width] duration-75"></div>
+          </div>
+          <p className="text-[10px] text-gray-500 mt-1">Fale algo para testar.</p>
+        </div>
+      </div>
+
+      {renderSelect('audioinput', 'Microfone', 'audioInputId')}
+      {renderSelect('videoinput', 'Câmera', 'videoInputId')}
+      {supportsOutputSelection && renderSelect('audiooutput', 'Alto-falante', 'audioOutputId')}
+
+      <button
+        onClick={handlePlayTestTone}
+        disabled={isPlayingTone}
+        className="w-full bg-gray-700 hover:bg-gray-600 disabled:opacity-60 text-gray-200 text-xs font-bold py-2 rounded-lg transition-colors"
+      >
+        {isPlayingTone ? 'Tocando...' : 'Testar Alto-falante'}
+      </button>
+    </div>
+  );
+};
+
+export default DeviceCheck;
@@ -1,8 +1,8 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { User } from '../types';
-import { generatePixCheckout, CheckoutResponse } from '../services/asaas';
-import { logPayment, getPaymentStatusFromDB, getUserProfile } from '../services/supabase';
+import { getPaymentStatusFromDB, getUserProfile } from '../services/supabase';
+import { CheckoutResponse, PriceQuote, PricingConfig, PurchaseSelection, createCheckout, fetchPricing, requestQuote } from '../services/pricing';
 
 interface PaymentModalProps {
   user: User;
@@ -10,18 +10,112 @@ interface PaymentModalProps {
   onSuccess: (updatedUser: User) => void;
 }
 
-const RATE_PER_MINUTE = 0.30;
+const DEFAULT_PACKAGE_ID = 'plus';
+const DEFAULT_CUSTOM_BRL = 20;
+// Intervalos entre as consultas do status (backoff); o último se repete até o pagamento cair
+const POLL_DELAYS_MS = [3000, 5000, 8000, 13000, 20000, 30000];
+// Espera o controle de valor parar antes de pedir a cotação ao servidor
+const QUOTE_DEBOUNCE_MS = 250;
+const PAID_STATUSES = ['RECEIVED', 'CONFIRMED'];
+
+/**
+ * Momento em que o PIX expira. O Asaas envia "AAAA-MM-DD HH:mm:ss" (ou só a data) no horário de Brasília.
+ */
+const parseExpiration = (value: string): number | null => {
+  if (!value) return null;
+  const [date, time = '23:59:59'] = value.trim().split(/[ T]/);
+  const brasilia = new Date(`${date}T${time}-03:00`).getTime();
+  if (!Number.isNaN(brasilia)) return brasilia;
+  const other = new Date(value).getTime();
+  return Number.isNaN(other) ? null : other;
+};
+
+const formatCountdown = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const clock = `${String(Math.floor((total % 3600) / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+  return hours ? `${hours}:${clock}` : clock;
+};
 
 const PaymentModal: React.FC<PaymentModalProps> = ({ user, onClose, onSuccess }) => {
   const [step, setStep] = useState<1 | 2 | 3>(1); 
-  const [amountBRL, setAmountBRL] = useState(5); 
+  const [pricing, setPricing] = useState<PricingConfig | null>(null);
+  const [pricingFailed, setPricingFailed] = useState(false);
+  const [selection, setSelection] = useState<PurchaseSelection>({ packageId: DEFAULT_PACKAGE_ID });
+  const [customBRL, setCustomBRL] = useState(DEFAULT_CUSTOM_BRL);
+  const [couponInput, setCouponInput] = useState('');
+  // Cupom aceito pelo servidor; a cada mudança da recarga ele é revalidado na cotação
+  const [appliedCoupon, setAppliedCoupon] = useState<string | null>(null);
+  const [couponError, setCouponError] = useState<string | null>(null);
+  const [quote, setQuote] = useState<PriceQuote | null>(null);
+  // Motivo do servidor para o cupom aplicado não valer nesta recarga (a cotação vem sem o desconto)
+  const [couponProblem, setCouponProblem] = useState<string | null>(null);
+  const [isApplyingCoupon, setIsApplyingCoupon] = useState(false);
   const [cpf, setCpf] = useState('');
   const [qrCodeData, setQrCodeData] = useState<CheckoutResponse | null>(null);
   const [paymentId, setPaymentId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isChecking, setIsChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  // A consulta automática e o botão podem confirmar ao mesmo tempo; o pai só é avisado uma vez
+  const settledRef = useRef(false);
+
+  const expiresAt = parseExpiration(qrCodeData?.expirationDate || '');
+  const isExpired = expiresAt !== null && now >= expiresAt;
+
+  const isCustom = 'customBRL' in selection;
+
+  useEffect(() => {
+    fetchPricing().then(result => {
+      if (result) setPricing(result);
+      else setPricingFailed(true);
+    });
+  }, []);
+
+  // Cotação do servidor para a recarga escolhida; só a da última escolha é aplicada
+  useEffect(() => {
+    if (step !== 1) return;
+    let cancelled = false;
+    setQuote(null);
+    const timer = setTimeout(async () => {
+      const result = await requestQuote(selection, appliedCoupon || undefined);
+      if (cancelled) return;
+      if ('error' in result) {
+        setError(result.error);
+        return;
+      }
+      setError(null);
+      setQuote(result.quote);
+      setCouponProblem(result.couponError);
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [step, selection, appliedCoupon]);
+
+  const handleApplyCoupon = async () => {
+    setCouponError(null);
+    setIsApplyingCoupon(true);
+    const result = await requestQuote(selection, couponInput.trim());
+    setIsApplyingCoupon(false);
+    if ('error' in result) {
+      setCouponError("Não foi possível validar o cupom agora. Tente novamente.");
+      return;
+    }
+    if (result.couponError) {
+      setCouponError(result.couponError);
+      return;
+    }
+    setAppliedCoupon(couponInput.trim());
+    setCouponInput('');
+  };
 
-  const minutesToBuy = Math.floor(amountBRL / RATE_PER_MINUTE);
+  const handleSelectCustom = (value: number) => {
+    setCustomBRL(value);
+    setSelection({ customBRL: value });
+  };
 
   const handleGeneratePix = async () => {
     // Validação robusta de CPF: Apenas 11 dígitos numéricos são aceitos.
@@ -40,54 +134,80 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ user, onClose, onSuccess })
     setError(null);
     setStep(2);
 
-    try {
-      const checkoutData = await generatePixCheckout({
-        name: `${user.name} ${user.surname}`,
-        email: user.email, 
-        cpf: cleanCpf,
-        value: amountBRL
-      });
-
-      if (!checkoutData.payload && !checkoutData.encodedImage) {
-        throw new Error("A API retornou sucesso, mas não enviou os dados do PIX.");
-      }
-
-      setPaymentId(checkoutData.id);
-      setQrCodeData(checkoutData);
-      
-      if (user.id) {
-        await logPayment(user.id, checkoutData.id, amountBRL, minutesToBuy);
-      }
-      
-      setStep(3);
-    } catch (err: any) {
-      setError(err.message || "Erro ao processar pagamento.");
+    // O servidor cota de novo e cobra o preço dele; a linha em payments é gravada por ele
+    const checkoutData = await createCheckout({
+      selection,
+      couponCode: appliedCoupon || undefined,
+      name: `${user.name} ${user.surname}`,
+      email: user.email,
+      cpf: cleanCpf
+    });
+    if ('error' in checkoutData) {
+      setError(checkoutData.error);
       setStep(1);
+      return;
     }
+
+    setPaymentId(checkoutData.id);
+    setQrCodeData(checkoutData);
+    setNow(Date.now());
+    setStep(3);
   };
 
+  /**
+   * Consulta o status na tabela payments (atualizada pelo webhook do Asaas, que lança os créditos antes).
+   * Pago: busca o perfil com o saldo novo e avisa o componente pai, que fecha o modal. Retorna true nesse caso.
+   */
+  const confirmIfPaid = async (): Promise<boolean> => {
+    if (!paymentId || !user.id) return false;
+    const currentStatus = await getPaymentStatusFromDB(paymentId);
+    if (!currentStatus || !PAID_STATUSES.includes(currentStatus)) return false;
+
+    // Sem o perfil, a próxima consulta tenta de novo
+    const updatedProfile = await getUserProfile(user.id);
+    if (!updatedProfile) return false;
+    if (!settledRef.current) {
+      settledRef.current = true;
+      onSuccess(updatedProfile);
+    }
+    return true;
+  };
+
+  // Acompanha o pagamento sozinho enquanto o QR Code está na tela e não expirou (um PIX novo recomeça)
+  useEffect(() => {
+    if (step !== 3 || !paymentId || isExpired) return;
+    let cancelled = false;
+    let attempt = 0;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      const paid = await confirmIfPaid().catch(() => false);
+      if (cancelled || paid) return;
+      attempt = Math.min(attempt + 1, POLL_DELAYS_MS.length - 1);
+      timer = setTimeout(poll, POLL_DELAYS_MS[attempt]);
+    };
+    timer = setTimeout(poll, POLL_DELAYS_MS[0]);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [step, paymentId, isExpired]);
+
+  // Contagem regressiva até a expiração do PIX
+  useEffect(() => {
+    if (step !== 3 || expiresAt === null || isExpired) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [step, expiresAt, isExpired]);
+
   const handleCheckPayment = async () => {
-    if (!paymentId || !user.id) return;
     setIsChecking(true);
     setError(null);
     
     try {
-      // Verifica o status diretamente na tabela payments do Supabase.
-      const currentStatus = await getPaymentStatusFromDB(paymentId);
-      
-      if (currentStatus === 'RECEIVED') {
-        // Se estiver pago, buscamos o perfil atualizado e notificamos o componente pai para fechar o modal.
-        // A atualização de créditos no banco ocorre via trigger SQL.
-        const updatedProfile = await getUserProfile(user.id);
-        if (updatedProfile) {
-          onSuccess(updatedProfile);
-        } else {
-          onClose();
-          window.location.reload();
-        }
-      } else {
-        // Se não for 'RECEIVED', mantém a janela aberta e exibe erro instrutivo.
-        setError("Pagamento ainda não compensado. Se você já pagou, aguarde 30 segundos para o processamento bancário e tente novamente.");
+      if (!await confirmIfPaid()) {
+        setError("Ainda não recebemos a confirmação. Esta janela se atualiza sozinha assim que o pagamento for compensado.");
       }
     } catch (err: any) {
       setError("Erro ao verificar status no servidor.");
@@ -118,19 +238,106 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ user, onClose, onSuccess })
         <div className="p-8">
           <h2 className="text-2xl font-bold text-white mb-6 text-center">Recarregar Créditos</h2>
 
-          {step === 1 && (
+          {step === 1 && !pricing && (
+            <div className="py-20 flex flex-col items-center justify-center space-y-4">
+              {pricingFailed ? (
+                <p className="text-red-400 text-sm text-center">Não foi possível carregar os preços. Tente novamente mais tarde.</p>
+              ) : (
+                <div className="w-12 h-12 border-4 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              )}
+            </div>
+          )}
+
+          {step === 1 && pricing && (
             <div className="space-y-6 animate-fade-in">
-              <div className="bg-gray-900/50 p-6 rounded-2xl border border-gray-700 text-center">
-                 <p className="text-gray-500 text-[10px] uppercase font-bold tracking-widest mb-1">Valor da Recarga</p>
-                 <span className="text-4xl font-black text-green-400">R$ {amountBRL.toFixed(2)}</span>
-                 <p className="text-blue-300 text-sm mt-2">Equivale a ~{minutesToBuy} minutos</p>
+              <div className="grid grid-cols-2 gap-3">
+                {pricing.packages.map(pkg => {
+                  const isSelected = 'packageId' in selection && selection.packageId === pkg.id;
+                  return (
+                    <button
+                      key={pkg.id}
+                      onClick={() => setSelection({ packageId: pkg.id })}
+                      className={`relative p-4 rounded-2xl border text-left transition-all ${isSelected ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 bg-gray-900/50 hover:border-gray-500'}`}
+                    >
+                      {pkg.highlight && (
+                        <span className="absolute -top-2 right-3 text-[9px] font-bold px-2 py-0.5 bg-yellow-500 text-gray-900 rounded-full uppercase tracking-wider">{pkg.highlight}</span>
+                      )}
+                      <p className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">{pkg.name}</p>
+                      <p className="text-xl font-black text-white">R$ {pkg.priceBRL.toFixed(2)}</p>
+                      <p className="text-xs text-blue-300">
+                        {pkg.minutes} min
+                        {pkg.bonusMinutes > 0 && <span className="text-green-400"> (+{pkg.bonusMinutes} bônus)</span>}
+                      </p>
+                    </button>
+                  );
+                })}
               </div>
 
-              <input 
-                type="range" min="5" max="500" step="5" value={amountBRL}
-                onChange={(e) => setAmountBRL(Number(e.target.value))}
-                className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-              />
+              <div className={`p-4 rounded-2xl border transition-all ${isCustom ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 bg-gray-900/50'}`}>
+                <button onClick={() => handleSelectCustom(customBRL)} className="w-full flex items-center justify-between text-left">
+                  <span className="text-[10px] text-gray-400 font-bold uppercase tracking-widest">Outro valor</span>
+                  {isCustom && <span className="text-lg font-black text-white">R$ {customBRL.toFixed(2)}</span>}
+                </button>
+                {isCustom && (
+                  <input 
+                    type="range" min={pricing.minChargeBRL} max={pricing.maxCustomBRL} step="5" value={customBRL}
+                    onChange={(e) => handleSelectCustom(Number(e.target.value))}
+                    className="w-full h-2 mt-3 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+                  />
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-xs font-bold text-gray-400 uppercase">Cupom</label>
+                {appliedCoupon ? (
+                  <div className="flex items-center justify-between px-4 py-3 bg-gray-900/50 border border-green-500/30 rounded-xl">
+                    <span className="font-mono font-bold text-green-400">{appliedCoupon.toUpperCase()}</span>
+                    <button onClick={() => setAppliedCoupon(null)} className="text-xs text-gray-400 hover:text-white">remover</button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      placeholder="Ex.: BEMVINDO20"
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value)}
+                      className="flex-1 px-4 py-3 bg-gray-700 border border-gray-600 rounded-xl text-white uppercase focus:ring-2 focus:ring-blue-500 outline-none"
+                    />
+                    <button
+                      onClick={handleApplyCoupon}
+                      disabled={!couponInput.trim() || isApplyingCoupon}
+                      className="px-4 bg-gray-700 hover:bg-gray-600 text-white text-sm font-bold rounded-xl disabled:opacity-50"
+                    >
+                      {isApplyingCoupon ? '...' : 'Aplicar'}
+                    </button>
+                  </div>
+                )}
+                {(couponError || (appliedCoupon && couponProblem)) && <p className="text-yellow-400 text-xs">{couponError || couponProblem}</p>}
+              </div>
+
+              <div className="bg-gray-900/50 p-4 rounded-2xl border border-gray-700 space-y-1 text-sm">
+                {!quote ? (
+                  <div className="flex justify-center py-3">
+                    <div className="w-5 h-5 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+                  </div>
+                ) : (
+                  <>
+                    {quote.discountBRL > 0 && (
+                      <>
+                        <div className="flex justify-between text-gray-400"><span>Subtotal</span><span>R$ {quote.listPriceBRL.toFixed(2)}</span></div>
+                        <div className="flex justify-between text-green-400"><span>Cupom {quote.couponCode}</span><span>− R$ {quote.discountBRL.toFixed(2)}</span></div>
+                      </>
+                    )}
+                    <div className="flex justify-between items-end">
+                      <span className="text-gray-300 font-bold">Total</span>
+                      <span className="text-2xl font-black text-green-400">R$ {quote.priceBRL.toFixed(2)}</span>
+                    </div>
+                    <p className="text-blue-300 text-xs text-right">
+                      {quote.minutes} minutos{quote.bonusMinutes > 0 && ` (${quote.baseMinutes} + ${quote.bonusMinutes} de bônus)`}
+                    </p>
+                  </>
+                )}
+              </div>
 
               <div className="space-y-2">
                 <label className="text-xs font-bold text-gray-400 uppercase">CPF do Titular</label>
@@ -147,7 +354,8 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ user, onClose, onSuccess })
 
               <button
                 onClick={handleGeneratePix}
-                className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-xl shadow-lg transition-all active:scale-95"
+                disabled={!quote}
+                className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-xl shadow-lg transition-all active:scale-95 disabled:opacity-50"
               >
                 Gerar PIX
               </button>
@@ -185,15 +393,36 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ user, onClose, onSuccess })
                 </div>
               </div>
 
+              {isExpired ? (
+                <div className="bg-yellow-500/10 border border-yellow-500/20 p-4 rounded-xl text-center space-y-3">
+                  <p className="text-yellow-300 text-sm font-bold">Este PIX expirou.</p>
+                  <p className="text-gray-400 text-xs">Se você já pagou, toque em "Já paguei, verificar agora" para liberar os créditos. Caso contrário, gere uma nova cobrança.</p>
+                  <button
+                    onClick={handleGeneratePix}
+                    className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3 rounded-xl transition-all active:scale-95"
+                  >
+                    Gerar novo PIX
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-center gap-3 text-sm text-gray-300">
+                  <div className="w-4 h-4 border-2 border-green-400 border-t-transparent rounded-full animate-spin"></div>
+                  <span>Aguardando pagamento...</span>
+                  {expiresAt !== null && (
+                    <span className="font-mono text-xs text-gray-500">expira em {formatCountdown(expiresAt - now)}</span>
+                  )}
+                </div>
+              )}
+
               {error && <p className="text-red-400 text-sm bg-red-500/10 p-3 rounded-xl border border-red-500/20 text-center">{error}</p>}
 
               <button
                 onClick={handleCheckPayment}
                 disabled={isChecking}
-                className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl flex justify-center items-center gap-3 shadow-lg"
+                className="w-full bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 rounded-xl flex justify-center items-center gap-3 text-sm"
               >
-                {isChecking && <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
-                {isChecking ? 'Sincronizando...' : 'Já paguei! Liberar Créditos'}
+                {isChecking && <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
+                {isChecking ? 'Verificando...' : 'Já paguei, verificar agora'}
               </button>
             </div>
           )}
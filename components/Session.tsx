@@ -1,102 +1,264 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { User, AvatarConfig, ChatMessage, SessionResult } from '../types';
-import { useLiveAvatar } from '../hooks/useLiveAvatar';
-import { evaluateSession } from '../services/gemini';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { User, AvatarConfig, Scenario, DifficultyParameters, Turn, SessionResult, InputMode, MicMode, UserPreferences } from '../types';
+import { useLiveAvatar, MIC_ACCESS_ERROR } from '../hooks/useLiveAvatar';
+import { useTurnCorrections } from '../hooks/useTurnCorrections';
+import DeviceCheck from './DeviceCheck';
+import { SPEECH_RATES } from '../utils/timeStretch';
+import { buildScenarioOutcome } from '../services/evaluator';
+import { RECORDING_CONFIG } from '../services/supabase';
+import { HEARTBEAT_INTERVAL_MS, closeSessionLease, openSessionLease, sendLeaseHeartbeat } from '../services/credits';
+import { SessionRecordingFile } from '../utils/sessionRecorder';
+import { UserAudioSegment } from '../utils/userSpeech';
+import { formatTranscript } from '../utils/transcript';
+import { computeSpeakingMetrics } from '../utils/speakingMetrics';
+
+// Amount of recent transcript replayed to the tutor after a reconnect that couldn't resume the session
+const RESUME_CONTEXT_CHARS = 2000;
+const RECORDING_PREF_KEY = 'fluentai_record_sessions';
+const CAMERA_ACCESS_ERROR = "Acesso à câmera/microfone negado.";
+const METERING_ERROR = "Não foi possível iniciar a medição de créditos. Verifique sua conexão e tente novamente.";
+// Heartbeats seguidos sem resposta antes de encerrar a sessão (o servidor já terá fechado a lease)
+const MAX_MISSED_HEARTBEATS = 3;
 
 // Fix: Updated onComplete signature to match App.tsx (Omit date and avatarName which are handled in App.tsx)
 interface SessionProps {
   user: User;
   avatar: AvatarConfig;
-  onComplete: (result: Omit<SessionResult, 'date' | 'avatarName'>, finalCredits: number) => void;
+  scenario?: Scenario | null;
+  difficulty?: DifficultyParameters | null;
+  onComplete: (result: Omit<SessionResult, 'date' | 'avatarName'>, finalCredits: number, recording?: SessionRecordingFile | null, userAudio?: UserAudioSegment[]) => void;
   onCancel: () => void;
   onUpdateCredits: (remainingSeconds: number) => void;
+  onUpdatePreferences: (changes: Partial<UserPreferences>) => void;
   onBuyCredits: () => void;
 }
 
-const Session: React.FC<SessionProps> = ({ user, avatar, onComplete, onCancel, onUpdateCredits, onBuyCredits }) => {
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+const Session: React.FC<SessionProps> = ({ user, avatar, scenario, difficulty, onComplete, onCancel, onUpdateCredits, onUpdatePreferences, onBuyCredits }) => {
+  // Turnos concluídos (renderização); a fonte da verdade fica em turnsRef
+  const [turns, setTurns] = useState<Turn[]>([]);
+  const [currentTurn, setCurrentTurn] = useState<Turn | null>(null);
   const [startTime, setStartTime] = useState<number | null>(null);
   const [isFinishing, setIsFinishing] = useState(false);
   // Alterado para false por padrão para não cobrir o avatar no mobile ao iniciar
   const [showTranscript, setShowTranscript] = useState(false); 
   const [hasStarted, setHasStarted] = useState(false);
   const [localError, setLocalError] = useState<string | null>(null);
+  // Modo texto: alternativa quando câmera/microfone não estão disponíveis
+  const [inputMode, setInputMode] = useState<InputMode>('voice');
+  const [draftText, setDraftText] = useState("");
+  const [tutorAudioMuted, setTutorAudioMuted] = useState(false);
+  const [micMode, setMicMode] = useState<MicMode>(user.preferences?.micMode || 'vad');
+  // Velocidade da fala do tutor (ajustável durante a sessão, sem alterar o tom da voz)
+  const [speechRate, setSpeechRate] = useState<number>(user.preferences?.speechRate || 1);
+  // Correções gramaticais ao vivo no painel de transcrição
+  const [liveCorrections, setLiveCorrections] = useState(user.preferences?.liveCorrections ?? true);
+  // Gravação é opt-in e a escolha fica salva neste navegador
+  const [recordAudio, setRecordAudio] = useState(() => localStorage.getItem(RECORDING_PREF_KEY) === 'true');
   
-  // Credits Management
+  // Credits Management: o servidor debita (services/credits); aqui o saldo só é exibido
   const [remainingCredits, setRemainingCredits] = useState(user.credits);
   const [showCreditModal, setShowCreditModal] = useState(false);
+  const leaseIdRef = useRef<string | null>(null);
+  // Encerramento em curso (ou o último), para quem pedir o saldo final enquanto ele não terminou
+  const closingLeaseRef = useRef<Promise<number | null> | null>(null);
+  // Liga os débitos do extrato a esta sessão, mesmo que ela passe por várias leases
+  const [sessionRef] = useState(() => crypto.randomUUID());
   
   // Refs
   const userVideoRef = useRef<HTMLVideoElement>(null);
   const userStreamRef = useRef<MediaStream | null>(null);
-  const fullTranscriptRef = useRef<string>("");
+  const turnsRef = useRef<Turn[]>([]);
+  const currentTurnRef = useRef<Turn | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
-  const lastSyncCreditsRef = useRef<number>(user.credits);
   
   // Avatar Animation Ref
   const avatarImageRef = useRef<HTMLImageElement>(null);
 
-  const [currentTurnText, setCurrentTurnText] = useState("");
-  const [currentTurnRole, setCurrentTurnRole] = useState<'user' | 'model' | null>(null);
+  const { corrections, checkingTurn, checkTurn } = useTurnCorrections(liveCorrections);
+
+  const recordingOptions = useMemo(() => recordAudio ? {
+    format: RECORDING_CONFIG.format,
+    maxDurationSeconds: RECORDING_CONFIG.maxDurationMinutes * 60
+  } : null, [recordAudio]);
 
   // Hook Connection
-  const { connect, disconnect, isConnected, isTalking, error: hookError, analyserNode } = useLiveAvatar({
+  const { connect, disconnect, sendText, setOutputMuted, setPushToTalk, stopRecording, getAudioTime, getUserAudio, getSpeakingTimes, isConnected, isReconnecting, isTalking, isUserSpeaking, error: hookError, analyserNode } = useLiveAvatar({
     avatarConfig: avatar,
-    onTranscriptUpdate: (text, isUser) => {
-      const role = isUser ? 'user' : 'model';
-      
-      if (currentTurnRole && currentTurnRole !== role) {
-         setMessages(prev => [...prev, {
-            role: currentTurnRole,
-            text: currentTurnText,
-            timestamp: Date.now()
-         }]);
-         fullTranscriptRef.current += `${currentTurnRole === 'user' ? 'User' : 'Avatar'}: ${currentTurnText}\n`;
-         setCurrentTurnText(text);
+    recording: recordingOptions,
+    speechRate,
+    scenario,
+    difficulty,
+    getResumeContext: () => {
+      const turnsSoFar = currentTurnRef.current ? [...turnsRef.current, currentTurnRef.current] : turnsRef.current;
+      // Only the tail of the conversation is replayed to keep the system instruction small
+      return formatTranscript(turnsSoFar).slice(-RESUME_CONTEXT_CHARS);
+    },
+    onTranscriptUpdate: (text, isUser) => appendToTurn(isUser ? 'user' : 'model', text),
+    onTurnEvent: (event) => {
+      if (event === 'turnComplete') {
+        if (currentTurnRef.current?.speaker === 'model') commitCurrentTurn();
+        return;
+      }
+      // A transcrição do aluno pode chegar antes do sinal de interrupção: marca o último turno do tutor
+      if (currentTurnRef.current?.speaker === 'model') {
+        commitCurrentTurn(true);
       } else {
-         setCurrentTurnText(prev => prev + text);
+        const lastTutorTurn = [...turnsRef.current].reverse().find(turn => turn.speaker === 'model');
+        if (lastTutorTurn && !lastTutorTurn.interrupted) {
+          turnsRef.current = turnsRef.current.map(turn => turn === lastTutorTurn ? { ...turn, interrupted: true } : turn);
+          setTurns(turnsRef.current);
+        }
       }
-      setCurrentTurnRole(role);
     }
   });
 
+  /**
+   * Fecha o turno em andamento e o adiciona ao log (turnos sem texto são descartados).
+   */
+  const commitCurrentTurn = (interrupted = false) => {
+    const turn = currentTurnRef.current;
+    if (!turn) return;
+    currentTurnRef.current = null;
+    setCurrentTurn(null);
+    if (!turn.text.trim()) return;
+    turnsRef.current = [...turnsRef.current, { ...turn, interrupted: turn.interrupted || interrupted }];
+    setTurns(turnsRef.current);
+    if (turn.speaker === 'user') checkTurn(turnsRef.current.length - 1, turn.text);
+  };
+
+  /**
+   * Acrescenta texto transcrito ao turno em andamento, abrindo um novo quando o falante muda.
+   */
+  const appendToTurn = (speaker: Turn['speaker'], text: string) => {
+    if (currentTurnRef.current && currentTurnRef.current.speaker !== speaker) {
+      commitCurrentTurn();
+    }
+    const now = Date.now();
+    const audioTime = getAudioTime();
+    const turn: Turn = currentTurnRef.current || {
+      speaker,
+      text: '',
+      startedAt: now,
+      endedAt: now,
+      interrupted: false,
+      audioStartOffset: audioTime,
+      audioEndOffset: audioTime
+    };
+    currentTurnRef.current = { ...turn, text: turn.text + text, endedAt: now, audioEndOffset: audioTime };
+    setCurrentTurn(currentTurnRef.current);
+  };
+
   const error = localError || hookError;
+  const isPushToTalk = hasStarted && inputMode === 'voice' && micMode === 'push-to-talk';
+  const canFallbackToText = inputMode === 'voice' && (localError === CAMERA_ACCESS_ERROR || hookError === MIC_ACCESS_ERROR);
 
-  // Credit Deduction Timer
+  // Push-to-talk pela barra de espaço (ignorada enquanto o usuário digita em algum campo)
   useEffect(() => {
-    if (!hasStarted || !isConnected || isFinishing || showCreditModal) return;
+    if (!isPushToTalk || !isConnected) return;
+
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
 
-    const timer = setInterval(() => {
-        setRemainingCredits(prev => {
-            const newVal = prev - 1;
-            if (newVal <= 0) {
-                clearInterval(timer);
-                onUpdateCredits(0); // Sincroniza 0 imediatamente no banco
-                handleFinish(0); // Auto-finaliza para salvar o histórico
-                setShowCreditModal(true);
-                return 0;
-            }
-            return newVal;
-        });
-    }, 1000);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) setPushToTalk(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault();
+      setPushToTalk(false);
+    };
+    const handleBlur = () => setPushToTalk(false);
 
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      setPushToTalk(false);
+    };
+  }, [isPushToTalk, isConnected, setPushToTalk]);
+
+  // Contagem regressiva só para exibição; o saldo real chega a cada heartbeat
+  useEffect(() => {
+    if (!hasStarted || !isConnected || isFinishing || showCreditModal) return;
+
+    const timer = setInterval(() => setRemainingCredits(prev => Math.max(0, prev - 1)), 1000);
     return () => clearInterval(timer);
   }, [hasStarted, isConnected, isFinishing, showCreditModal]);
 
-  // Sync credits with Supabase periodically (safety net)
+  // Medição no servidor: lease aberta ao conectar e heartbeats enquanto a conexão estiver de pé.
+  // Quando a conexão cai a lease é encerrada, e a reconexão abre outra: o tempo sem conexão não é cobrado.
   useEffect(() => {
-    if (!hasStarted || isFinishing) return;
+    if (!hasStarted || !isConnected || isFinishing || showCreditModal) return;
+    let cancelled = false;
+    let inFlight = false;
+    let missed = 0;
+
+    const beat = async () => {
+      if (inFlight) return;
+      inFlight = true;
+      const current = leaseIdRef.current;
+      let status = current ? await sendLeaseHeartbeat(current) : await openSessionLease(sessionRef);
+      // Lease vencida no servidor: abre outra se ainda houver saldo
+      if (current && status && !status.leaseId && status.credits > 0) status = await openSessionLease(sessionRef);
+      inFlight = false;
 
-    const syncInterval = setInterval(() => {
-        if (Math.abs(lastSyncCreditsRef.current - remainingCredits) >= 5) {
-            onUpdateCredits(remainingCredits);
-            lastSyncCreditsRef.current = remainingCredits;
+      // A conexão caiu (ou a sessão acabou) durante a chamada; uma lease aberta nela já não tem uso
+      if (cancelled) {
+        if (status?.leaseId && status.leaseId !== current) closeSessionLease(status.leaseId);
+        return;
+      }
+
+      if (!status) {
+        missed++;
+        if (!current) {
+          // Sem medição não há sessão
+          setLocalError(METERING_ERROR);
+          disconnect();
+          userStreamRef.current?.getTracks().forEach(track => track.stop());
+          userStreamRef.current = null;
+          setHasStarted(false);
+        } else if (missed >= MAX_MISSED_HEARTBEATS) {
+          handleFinishRef.current();
         }
-    }, 10000);
+        return;
+      }
+
+      missed = 0;
+      leaseIdRef.current = status.leaseId;
+      setRemainingCredits(status.credits);
+      onUpdateCredits(status.credits);
+      if (!status.leaseId) {
+        handleFinishRef.current(0); // Auto-finaliza para salvar o histórico
+        setShowCreditModal(true);
+      }
+    };
 
-    return () => clearInterval(syncInterval);
-  }, [remainingCredits, hasStarted, isFinishing, onUpdateCredits]);
+    beat();
+    const heartbeat = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(heartbeat);
+      // Conexão caída, sessão finalizada ou tela fechada: a medição para aqui
+      closeLease();
+    };
+  }, [hasStarted, isConnected, isFinishing, showCreditModal]);
+
+  // Encerra a medição; devolve o saldo final informado pelo servidor (null se não respondeu).
+  // Quem chama durante um encerramento em curso recebe o resultado dele.
+  const closeLease = () => {
+    const leaseId = leaseIdRef.current;
+    if (leaseId) {
+      leaseIdRef.current = null;
+      closingLeaseRef.current = closeSessionLease(leaseId);
+    }
+    return closingLeaseRef.current ?? Promise.resolve(null);
+  };
 
   useEffect(() => {
     if (hasStarted && userVideoRef.current && userStreamRef.current) {
@@ -164,76 +326,159 @@ const Session: React.FC<SessionProps> = ({ user, avatar, onComplete, onCancel, o
     if (messagesEndRef.current) {
         messagesEndRef.current.scrollIntoView({ behavior: "smooth" });
     }
-  }, [messages, currentTurnText, showTranscript]);
+  }, [turns, currentTurn, corrections, showTranscript]);
 
-  const handleStart = async () => {
+  const handleStart = async (mode: InputMode = 'voice') => {
       if (user.credits <= 0) {
         setShowCreditModal(true);
         return;
       }
       setLocalError(null);
+      setInputMode(mode);
       setHasStarted(true);
       setStartTime(Date.now());
+
+      if (mode === 'text') {
+        // No modo texto a conversa acontece no painel de transcrição
+        setShowTranscript(true);
+        // Libera a câmera caso o modo voz tenha falhado só no microfone
+        if (userStreamRef.current) {
+          userStreamRef.current.getTracks().forEach(track => track.stop());
+          userStreamRef.current = null;
+        }
+        connect({ inputMode: 'text', audioOutputId: user.preferences?.audioOutputId });
+        return;
+      }
+
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ video: true, audio: false });
+        const { videoInputId, audioInputId, audioOutputId } = user.preferences || {};
+        const stream = await navigator.mediaDevices.getUserMedia({ video: videoInputId ? { deviceId: videoInputId } : true, audio: false });
         userStreamRef.current = stream;
-        connect();
+        connect({ inputMode: 'voice', micMode, audioInputId, audioOutputId });
       } catch (err: any) {
-        setLocalError("Acesso à câmera/microfone negado.");
+        setLocalError(CAMERA_ACCESS_ERROR);
         setHasStarted(false);
       }
   };
 
+  const handleSendText = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draftText.trim();
+    if (!text || !sendText(text)) return;
+
+    // Fecha o turno em andamento (normalmente a fala do tutor) antes da mensagem digitada
+    commitCurrentTurn();
+    appendToTurn('user', text);
+    commitCurrentTurn();
+    setDraftText("");
+  };
+
+  const handleToggleTutorAudio = () => {
+    setOutputMuted(!tutorAudioMuted);
+    setTutorAudioMuted(!tutorAudioMuted);
+  };
+
   const handleFinish = async (forcedCredits?: number) => {
     if (isFinishing) return;
     setIsFinishing(true);
     
-    const finalCredits = typeof forcedCredits === 'number' ? forcedCredits : remainingCredits;
+    commitCurrentTurn();
+    const finalTurns = turnsRef.current;
+    const userAudio = getUserAudio();
+    const metrics = computeSpeakingMetrics(finalTurns, getSpeakingTimes());
     
+    // A gravação precisa ser finalizada antes de fechar os contextos de áudio
+    const recording = await stopRecording();
     await disconnect();
     if (userStreamRef.current) {
         userStreamRef.current.getTracks().forEach(track => track.stop());
     }
+    const closedCredits = await closeLease();
+    const finalCredits = typeof forcedCredits === 'number' ? forcedCredits : closedCredits ?? remainingCredits;
     
-    let finalTranscript = fullTranscriptRef.current;
-    if (currentTurnRole && currentTurnText) {
-       finalTranscript += `${currentTurnRole === 'user' ? 'User' : 'Avatar'}: ${currentTurnText}\n`;
-    }
-
     // Calcula duração real da conversa
     const duration = startTime ? (Date.now() - startTime) / 1000 : 0;
     
-    try {
-      const result = await evaluateSession(finalTranscript);
-      onComplete({ ...result, durationSeconds: duration }, finalCredits);
-    } catch (e) {
-      // Fallback em caso de erro na avaliação
-      onComplete({
-        overallScore: 0,
-        vocabularyScore: 0,
-        grammarScore: 0,
-        pronunciationScore: 0,
-        fluencyRating: 'Beginner',
-        feedback: "Erro ao processar avaliação.",
-        transcript: finalTranscript,
-        durationSeconds: duration
-      }, finalCredits);
-    }
+    // A avaliação roda depois, em fila (services/evaluationQueue); aqui a sessão só é entregue como 'pending'
+    onComplete({
+      overallScore: 0,
+      vocabularyScore: 0,
+      grammarScore: 0,
+      pronunciationScore: 0,
+      pronunciationEstimated: inputMode === 'voice' && userAudio.length === 0,
+      fluencyRating: 'Beginner',
+      feedback: "",
+      transcript: formatTranscript(finalTurns),
+      turns: finalTurns,
+      scenario: scenario ? buildScenarioOutcome(scenario) : undefined,
+      metrics,
+      durationSeconds: duration,
+      inputMode,
+      sessionRef,
+      evaluationStatus: 'pending'
+    }, finalCredits, recording, userAudio);
+  };
+  // O heartbeat chama a versão da última renderização (com o isFinishing atual), não a da sua própria
+  const handleFinishRef = useRef(handleFinish);
+  handleFinishRef.current = handleFinish;
+
+  const handleCycleSpeechRate = () => {
+    const currentIndex = SPEECH_RATES.indexOf(speechRate as typeof SPEECH_RATES[number]);
+    const nextRate = SPEECH_RATES[(currentIndex + 1) % SPEECH_RATES.length];
+    setSpeechRate(nextRate);
+    onUpdatePreferences({ speechRate: nextRate });
+  };
+
+  const handleSelectMicMode = (mode: MicMode) => {
+    setMicMode(mode);
+    onUpdatePreferences({ micMode: mode });
+  };
+
+  const handleToggleLiveCorrections = () => {
+    setLiveCorrections(!liveCorrections);
+    onUpdatePreferences({ liveCorrections: !liveCorrections });
   };
 
-  const handleCancelWithSync = () => {
-    onUpdateCredits(remainingCredits);
+  const handleToggleRecording = (enabled: boolean) => {
+    setRecordAudio(enabled);
+    localStorage.setItem(RECORDING_PREF_KEY, String(enabled));
+  };
+
+  const handleCancelWithSync = async () => {
+    const credits = await closeLease();
+    onUpdateCredits(credits ?? remainingCredits);
     onCancel();
   };
 
+  const textInputForm = (
+    <form onSubmit={handleSendText} className="flex gap-2">
+      <input
+        type="text"
+        value={draftText}
+        onChange={(e) => setDraftText(e.target.value)}
+        placeholder={isConnected ? "Escreva em inglês..." : "Conectando..."}
+        disabled={!isConnected || isFinishing}
+        className="flex-1 min-w-0 px-4 py-3 bg-gray-800/90 border border-gray-700 rounded-xl text-white text-sm focus:ring-2 focus:ring-blue-500 outline-none disabled:opacity-50"
+        autoFocus
+      />
+      <button
+        type="submit"
+        disabled={!isConnected || isFinishing || !draftText.trim()}
+        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold px-5 rounded-xl text-sm transition-all active:scale-95"
+      >
+        Enviar
+      </button>
+    </form>
+  );
+
   return (
     <div className="flex h-[100dvh] bg-gray-900 text-white overflow-hidden relative">
       <div className="relative flex-1 flex flex-col min-w-0">
         <header className="absolute top-0 left-0 right-0 z-20 p-4 sm:p-6 flex justify-between items-start pointer-events-none">
           <div className="bg-black/50 backdrop-blur-lg px-3 py-1.5 sm:px-4 sm:py-2 rounded-full border border-white/10 flex items-center gap-2 sm:gap-3 pointer-events-auto shadow-lg">
-              <div className={`w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full ${isConnected ? 'bg-green-500 shadow-[0_0_10px_#22c55e]' : 'bg-red-500 animate-pulse'}`}></div>
+              <div className={`w-2 h-2 sm:w-2.5 sm:h-2.5 rounded-full ${isConnected ? 'bg-green-500 shadow-[0_0_10px_#22c55e]' : isReconnecting ? 'bg-yellow-500 animate-pulse' : 'bg-red-500 animate-pulse'}`}></div>
               <span className="font-medium text-[10px] sm:text-sm tracking-wide">
-                {hasStarted ? (isConnected ? 'AO VIVO' : 'CONECTANDO...') : 'PRONTO'}
+                {hasStarted ? (isConnected ? 'AO VIVO' : isReconnecting ? 'RECONECTANDO...' : 'CONECTANDO...') : 'PRONTO'}
               </span>
               <span className="text-white/40 text-sm">|</span>
               <span className="text-white/80 text-[10px] sm:text-sm font-bold truncate max-w-[60px] sm:max-w-none">{avatar.name}</span>
@@ -243,6 +488,26 @@ const Session: React.FC<SessionProps> = ({ user, avatar, onComplete, onCancel, o
               </span>
           </div>
           <div className="flex gap-2 pointer-events-auto">
+              <button
+                onClick={handleCycleSpeechRate}
+                className={`px-3 sm:px-4 rounded-full backdrop-blur-md transition-all shadow-lg text-[10px] sm:text-xs font-black font-mono border border-white/10 ${speechRate < 1 ? 'bg-blue-600/80 text-white' : 'bg-black/40 text-white hover:bg-black/60'}`}
+                title="Velocidade da fala do tutor"
+              >
+                {speechRate}x
+              </button>
+              {inputMode === 'text' && hasStarted && (
+                <button
+                  onClick={handleToggleTutorAudio}
+                  className={`p-2.5 sm:p-3 rounded-full backdrop-blur-md transition-all shadow-lg ${tutorAudioMuted ? 'bg-black/40 text-white/50 border border-white/10' : 'bg-black/40 text-white hover:bg-black/60 border border-white/10'}`}
+                  title={tutorAudioMuted ? "Ativar áudio do tutor" : "Silenciar áudio do tutor"}
+                >
+                  {tutorAudioMuted ? (
+                    <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2"></path></svg>
+                  ) : (
+                    <svg className="w-4 h-4 sm:w-5 sm:h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z"></path></svg>
+                  )}
+                </button>
+              )}
               <button 
                 onClick={() => setShowTranscript(!showTranscript)}
                 className={`p-2.5 sm:p-3 rounded-full backdrop-blur-md transition-all shadow-lg ${showTranscript ? 'bg-blue-600 text-white' : 'bg-black/40 text-white hover:bg-black/60 border border-white/10'}`}
@@ -278,19 +543,96 @@ const Session: React.FC<SessionProps> = ({ user, avatar, onComplete, onCancel, o
 
         {!hasStarted && !error && !showCreditModal && (
             <div className="absolute inset-0 z-50 flex flex-col items-center justify-center bg-black/80 backdrop-blur-sm p-4">
-                <div className="bg-gray-800 p-6 sm:p-8 rounded-3xl shadow-2xl border border-gray-700 max-w-sm w-full text-center animate-fade-in">
+                <div className="bg-gray-800 p-6 sm:p-8 rounded-3xl shadow-2xl border border-gray-700 max-w-sm w-full max-h-full overflow-y-auto custom-scrollbar text-center animate-fade-in">
                     <div className="w-20 h-20 sm:w-24 sm:h-24 mx-auto mb-4 sm:mb-6 rounded-full overflow-hidden border-4 border-blue-500 shadow-lg ring-4 ring-blue-500/20">
                         <img src={avatar.avatarImage} alt={avatar.name} className="w-full h-full object-cover" />
                     </div>
                     <h2 className="text-xl sm:text-2xl font-bold text-white mb-2">Conversar com {avatar.name}</h2>
-                    <p className="text-gray-400 text-sm sm:text-base mb-6 sm:mb-8 leading-relaxed">{avatar.description}</p>
-                    <button onClick={handleStart} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3.5 sm:py-4 rounded-xl text-base sm:text-lg transition-all transform hover:scale-[1.02] active:scale-95 shadow-blue-900/50 shadow-lg flex items-center justify-center gap-2">Iniciar Conversa</button>
+                    {scenario ? (
+                      <div className="mb-6 p-4 bg-blue-500/10 rounded-xl border border-blue-500/20 text-left">
+                        <p className="text-[10px] text-blue-400 font-bold uppercase tracking-widest mb-1">Cenário: {scenario.title}</p>
+                        <p className="text-gray-300 text-xs leading-relaxed mb-2">{scenario.description}</p>
+                        <ul className="space-y-1">
+                          {scenario.goals.map(goal => (
+                            <li key={goal} className="text-xs text-gray-400 flex gap-2"><span className="text-blue-400">○</span>{goal}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ) : (
+                      <p className="text-gray-400 text-sm sm:text-base mb-6 sm:mb-8 leading-relaxed">{avatar.description}</p>
+                    )}
+                    <DeviceCheck
+                      value={{
+                        audioInputId: user.preferences?.audioInputId,
+                        videoInputId: user.preferences?.videoInputId,
+                        audioOutputId: user.preferences?.audioOutputId
+                      }}
+                      onChange={onUpdatePreferences}
+                    />
+                    <div className="mb-3 text-left">
+                        <p className="text-[10px] text-gray-500 font-bold uppercase tracking-widest mb-2">Modo do microfone</p>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button
+                              onClick={() => handleSelectMicMode('vad')}
+                              className={`px-3 py-2.5 rounded-xl text-xs font-bold border transition-colors ${micMode === 'vad' ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-gray-900/50 border-gray-700 text-gray-400 hover:text-white'}`}
+                            >
+                              Sempre ligado
+                            </button>
+                            <button
+                              onClick={() => handleSelectMicMode('push-to-talk')}
+                              className={`px-3 py-2.5 rounded-xl text-xs font-bold border transition-colors ${micMode === 'push-to-talk' ? 'bg-blue-600/20 border-blue-500 text-blue-300' : 'bg-gray-900/50 border-gray-700 text-gray-400 hover:text-white'}`}
+                            >
+                              Apertar para falar
+                            </button>
+                        </div>
+                    </div>
+                    <label className="flex items-center justify-between gap-3 mb-4 px-4 py-3 bg-gray-900/50 rounded-xl border border-gray-700 cursor-pointer text-left">
+                        <span className="text-xs sm:text-sm text-gray-300">
+                            Gravar áudio da sessão
+                            <span className="block text-[10px] text-gray-500">Ouça depois no histórico ({RECORDING_CONFIG.retentionDays} dias)</span>
+                        </span>
+                        <input type="checkbox" checked={recordAudio} onChange={(e) => handleToggleRecording(e.target.checked)} className="w-5 h-5 accent-blue-500" />
+                    </label>
+                    <button onClick={() => handleStart('voice')} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-3.5 sm:py-4 rounded-xl text-base sm:text-lg transition-all transform hover:scale-[1.02] active:scale-95 shadow-blue-900/50 shadow-lg flex items-center justify-center gap-2">Iniciar Conversa</button>
+                    <button onClick={() => handleStart('text')} className="w-full mt-3 bg-gray-700 hover:bg-gray-600 text-gray-200 font-bold py-3 rounded-xl text-sm transition-all active:scale-95">Praticar por Texto</button>
                     <button onClick={handleCancelWithSync} className="mt-4 sm:mt-6 text-gray-500 hover:text-white text-xs sm:text-sm font-bold tracking-widest uppercase">Cancelar</button>
                 </div>
             </div>
         )}
 
-        {hasStarted && (
+        {hasStarted && inputMode === 'text' && !showTranscript && (
+            <div className="absolute bottom-0 left-0 right-0 z-30 p-3 sm:p-6 bg-gradient-to-t from-gray-950 via-gray-950/80 to-transparent">
+                {textInputForm}
+            </div>
+        )}
+
+        {isPushToTalk && isConnected && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-2 select-none">
+                <button
+                  onPointerDown={(e) => { e.preventDefault(); setPushToTalk(true); }}
+                  onPointerUp={() => setPushToTalk(false)}
+                  onPointerLeave={() => setPushToTalk(false)}
+                  onPointerCancel={() => setPushToTalk(false)}
+                  onContextMenu={(e) => e.preventDefault()}
+                  className={`w-16 h-16 sm:w-20 sm:h-20 rounded-full flex items-center justify-center shadow-2xl transition-all touch-none ${isUserSpeaking ? 'bg-red-600 scale-110 shadow-red-900/50 ring-4 ring-red-500/30' : 'bg-blue-600 hover:bg-blue-500 shadow-blue-900/50'}`}
+                  title="Segure para falar"
+                >
+                  <svg className="w-7 h-7 sm:w-8 sm:h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z"></path></svg>
+                </button>
+                <span className="text-[10px] text-white/60 font-bold uppercase tracking-widest bg-black/40 px-3 py-1 rounded-full">
+                  {isUserSpeaking ? 'Falando...' : 'Segure para falar (ou Espaço)'}
+                </span>
+            </div>
+        )}
+
+        {hasStarted && inputMode === 'voice' && micMode === 'vad' && isConnected && isUserSpeaking && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 bg-black/50 backdrop-blur-md px-3 py-1.5 rounded-full border border-white/10 pointer-events-none">
+                <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse"></span>
+                <span className="text-[10px] text-white/80 font-bold uppercase tracking-widest">Ouvindo você</span>
+            </div>
+        )}
+
+        {hasStarted && inputMode === 'voice' && (
             <div className="absolute bottom-6 left-6 sm:top-24 sm:right-6 sm:bottom-auto sm:left-auto z-20 w-24 sm:w-36 aspect-[3/4] bg-gray-900 rounded-xl overflow-hidden shadow-2xl border border-white/10 ring-1 ring-black/20">
                 <video ref={userVideoRef} autoPlay muted playsInline className="w-full h-full object-cover transform scale-x-[-1]" />
                 <div className="absolute inset-0 bg-gradient-to-t from-black/40 to-transparent"></div>
@@ -303,32 +645,58 @@ const Session: React.FC<SessionProps> = ({ user, avatar, onComplete, onCancel, o
          <div className="w-full sm:w-80 md:w-96 absolute inset-y-0 right-0 sm:relative flex-shrink-0 bg-gray-900 border-l border-white/10 flex flex-col shadow-[0_0_100px_rgba(0,0,0,0.8)] z-40 animate-slide-in-right">
             <div className="p-4 border-b border-white/10 flex justify-between items-center bg-gray-800/80 backdrop-blur-md">
                <h3 className="font-bold text-gray-200 text-xs uppercase tracking-widest">Transcrição em Tempo Real</h3>
+               <button
+                 onClick={handleToggleLiveCorrections}
+                 className={`ml-auto mr-2 px-3 py-1.5 rounded-full text-[10px] font-black uppercase tracking-widest border transition-colors ${liveCorrections ? 'bg-green-600/20 border-green-500/40 text-green-400' : 'bg-white/5 border-white/10 text-gray-500 hover:text-white'}`}
+                 title="Verificar a gramática de cada frase sua durante a conversa"
+               >
+                 Correções {liveCorrections ? 'on' : 'off'}
+               </button>
                <button onClick={() => setShowTranscript(false)} className="text-white/50 hover:text-white p-2 bg-white/5 rounded-full transition-colors">
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
                </button>
             </div>
             <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-gray-950/30 custom-scrollbar">
-               {messages.length === 0 && !currentTurnText && <div className="text-center text-gray-600 mt-20 px-4"><p className="text-xs font-medium italic">Aguardando início da conversa...</p></div>}
-               {messages.map((msg, idx) => (
-                  <div key={idx} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'} animate-fade-in`}>
-                     <span className="text-[9px] text-gray-500 mb-1 font-black uppercase tracking-tighter">{msg.role === 'user' ? 'VOCÊ' : avatar.name}</span>
-                     <div className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed shadow-md ${msg.role === 'user' ? 'bg-blue-600 text-white rounded-tr-none' : 'bg-gray-800 text-gray-200 rounded-tl-none border border-gray-700'}`}>{msg.text}</div>
+               {turns.length === 0 && !currentTurn && <div className="text-center text-gray-600 mt-20 px-4"><p className="text-xs font-medium italic">Aguardando início da conversa...</p></div>}
+               {turns.map((turn, idx) => (
+                  <div key={idx} className={`flex flex-col ${turn.speaker === 'user' ? 'items-end' : 'items-start'} animate-fade-in`}>
+                     <span className="text-[9px] text-gray-500 mb-1 font-black uppercase tracking-tighter">{turn.speaker === 'user' ? 'VOCÊ' : avatar.name}</span>
+                     <div className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed shadow-md ${turn.speaker === 'user' ? 'bg-blue-600 text-white rounded-tr-none' : 'bg-gray-800 text-gray-200 rounded-tl-none border border-gray-700'}`}>
+                        {turn.text}
+                        {turn.interrupted && <span className="ml-1 text-gray-500">…</span>}
+                     </div>
+                     {liveCorrections && checkingTurn === idx && (
+                        <span className="mt-1 text-[10px] text-gray-600 italic">verificando...</span>
+                     )}
+                     {liveCorrections && corrections[idx] && (
+                        <div className="mt-1.5 max-w-[85%] rounded-xl px-3 py-2 text-xs bg-gray-800/60 border border-yellow-500/20 space-y-1 animate-fade-in">
+                           <p className="text-red-300/80 line-through">{corrections[idx].original}</p>
+                           <p className="text-green-400 font-medium">{corrections[idx].corrected}</p>
+                           {corrections[idx].explanation && <p className="text-gray-400">{corrections[idx].explanation}</p>}
+                        </div>
+                     )}
                   </div>
                ))}
-               {currentTurnText && (
-                   <div className={`flex flex-col ${currentTurnRole === 'user' ? 'items-end' : 'items-start'}`}>
-                      <span className="text-[9px] text-gray-500 mb-1 font-black uppercase tracking-tighter">{currentTurnRole === 'user' ? 'VOCÊ' : avatar.name}</span>
-                       <div className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed opacity-90 ${currentTurnRole === 'user' ? 'bg-blue-600/70 text-white rounded-tr-none' : 'bg-gray-800/70 text-gray-200 rounded-tl-none border border-gray-700/50'}`}>
-                          {currentTurnText}
+               {currentTurn && (
+                   <div className={`flex flex-col ${currentTurn.speaker === 'user' ? 'items-end' : 'items-start'}`}>
+                      <span className="text-[9px] text-gray-500 mb-1 font-black uppercase tracking-tighter">{currentTurn.speaker === 'user' ? 'VOCÊ' : avatar.name}</span>
+                       <div className={`max-w-[85%] rounded-2xl px-4 py-2.5 text-sm leading-relaxed opacity-90 ${currentTurn.speaker === 'user' ? 'bg-blue-600/70 text-white rounded-tr-none' : 'bg-gray-800/70 text-gray-200 rounded-tl-none border border-gray-700/50'}`}>
+                          {currentTurn.text}
                           <span className="inline-block w-1.5 h-3 ml-1 bg-white/50 animate-pulse rounded-full align-middle"></span>
                        </div>
                    </div>
                )}
                <div ref={messagesEndRef} />
             </div>
-            <div className="p-4 bg-gray-900 border-t border-white/5 text-[10px] text-gray-600 text-center uppercase font-bold tracking-widest">
-               FluentAI Tutor Live
-            </div>
+            {inputMode === 'text' && hasStarted ? (
+              <div className="p-3 bg-gray-900 border-t border-white/5">
+                 {textInputForm}
+              </div>
+            ) : (
+              <div className="p-4 bg-gray-900 border-t border-white/5 text-[10px] text-gray-600 text-center uppercase font-bold tracking-widest">
+                 FluentAI Tutor Live
+              </div>
+            )}
          </div>
       )}
 
@@ -337,7 +705,7 @@ const Session: React.FC<SessionProps> = ({ user, avatar, onComplete, onCancel, o
             <div className="bg-gray-800 p-6 sm:p-8 rounded-3xl shadow-2xl max-w-sm w-full text-center border border-red-500/20">
                 <div className="w-16 h-16 bg-red-500/20 text-red-400 rounded-full flex items-center justify-center mx-auto mb-4 animate-pulse"><svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg></div>
                 <h3 className="text-xl sm:text-2xl font-bold text-white mb-2">Créditos Esgotados!</h3>
-                <p className="text-gray-400 text-sm mb-6 leading-relaxed">Seus minutos acabaram, mas não se preocupe: sua sessão foi salva e avaliada para que você não perca seu progresso.</p>
+                <p className="text-gray-400 text-sm mb-6 leading-relaxed">Seus minutos acabaram, mas não se preocupe: sua sessão foi salva e está sendo avaliada para que você não perca seu progresso.</p>
                 <button onClick={() => { setShowCreditModal(false); onBuyCredits(); }} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-3.5 rounded-xl mb-3 shadow-lg shadow-green-900/20 transition-all active:scale-95">Comprar Créditos</button>
                 <button onClick={handleCancelWithSync} className="text-gray-500 hover:text-white text-xs sm:text-sm font-medium">VOLTAR AO MENU</button>
             </div>
@@ -347,6 +715,9 @@ const Session: React.FC<SessionProps> = ({ user, avatar, onComplete, onCancel, o
       {error && (
          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 bg-red-600/95 text-white px-6 py-5 rounded-2xl backdrop-blur-lg shadow-2xl z-[70] text-center max-w-xs w-full animate-shake">
             <p className="font-bold text-sm mb-4 leading-relaxed">{error}</p>
+            {canFallbackToText && (
+              <button onClick={() => handleStart('text')} className="w-full bg-red-800 text-white py-2.5 mb-2 rounded-xl text-xs font-black hover:bg-red-900 transition-colors uppercase tracking-widest">Continuar por Texto</button>
+            )}
             <button onClick={() => { setHasStarted(false); setLocalError(null); }} className="w-full bg-white text-red-600 py-2.5 rounded-xl text-xs font-black hover:bg-gray-100 transition-colors uppercase tracking-widest">Entendi</button>
          </div>
       )}
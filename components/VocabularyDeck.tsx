@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { VocabularyCard } from '../types';
+import { REVIEW_GRADES, isDue, reviewCard } from '../utils/spacedRepetition';
+
+interface VocabularyDeckProps {
+  cards: VocabularyCard[];
+  onReview: (card: VocabularyCard, grade: number) => void;
+}
+
+// Pronúncia do cartão pela voz do navegador: funciona offline e sem custo de API
+const speak = (text: string) => {
+  if (!('speechSynthesis' in window)) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = 'en-US';
+  utterance.rate = 0.9;
+  window.speechSynthesis.speak(utterance);
+};
+
+const formatInterval = (days: number) => days <= 1 ? '1 dia' : days < 30 ? `${days} dias` : `${Math.round(days / 30)} mês(es)`;
+
+const SpeakButton: React.FC<{ text: string }> = ({ text }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); speak(text); }}
+    className="p-2 rounded-full bg-gray-700 hover:bg-gray-600 text-blue-300 transition-colors"
+    title="Ouvir"
+  >
+    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M11 5L6 9H2v6h4l5 4V5z"></path></svg>
+  </button>
+);
+
+const VocabularyDeck: React.FC<VocabularyDeckProps> = ({ cards, onReview }) => {
+  const [revealed, setRevealed] = useState(false);
+
+  const dueCards = cards.filter(card => isDue(card));
+  const current = dueCards[0];
+
+  const handleGrade = (grade: number) => {
+    if (!current) return;
+    setRevealed(false);
+    onReview(current, grade);
+  };
+
+  if (cards.length === 0) {
+    return (
+      <div className="text-center py-20 bg-gray-800/30 rounded-3xl border border-gray-700 border-dashed">
+        <p className="text-gray-400 text-lg">Seu baralho está vazio.</p>
+        <p className="text-gray-500 text-sm mt-2">Depois de cada sessão avaliada, as palavras novas do tutor e as que você usou errado aparecem aqui.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {current ? (
+        <div className="max-w-xl mx-auto">
+          <p className="text-xs text-gray-500 uppercase font-bold tracking-widest mb-3 text-center">{dueCards.length} para revisar hoje</p>
+          <div
+            className="bg-gray-800 rounded-3xl border border-gray-700 p-8 text-center cursor-pointer min-h-[16rem] flex flex-col items-center justify-center gap-4"
+            onClick={() => setRevealed(true)}
+          >
+            {current.source === 'correction' && current.mistaken ? (
+              <>
+                <span className="text-[10px] font-bold px-2 py-0.5 bg-pink-500/20 text-pink-300 rounded uppercase tracking-wider">Como se diz corretamente?</span>
+                <h3 className="text-2xl font-bold text-pink-300 line-through decoration-pink-500/60">{current.mistaken}</h3>
+              </>
+            ) : (
+              <>
+                <div className="flex items-center gap-3">
+                  <h3 className="text-3xl font-extrabold text-white">{current.term}</h3>
+                  <SpeakButton text={current.term} />
+                </div>
+                {current.source === 'correction' && (
+                  <span className="text-[10px] font-bold px-2 py-0.5 bg-pink-500/20 text-pink-300 rounded uppercase tracking-wider">Você errou esta</span>
+                )}
+              </>
+            )}
+            {revealed ? (
+              <div className="animate-fade-in space-y-3">
+                {current.source === 'correction' && current.mistaken && (
+                  <div className="flex items-center justify-center gap-3">
+                    <p className="text-3xl font-extrabold text-white">{current.term}</p>
+                    <SpeakButton text={current.term} />
+                  </div>
+                )}
+                <p className="text-lg text-blue-300">{current.meaning}</p>
+                {current.example && (
+                  <div className="flex items-center justify-center gap-2">
+                    <p className="text-sm text-gray-400 italic">"{current.example}"</p>
+                    <SpeakButton text={current.example} />
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">{current.source === 'correction' && current.mistaken ? 'Toque para ver a correção' : 'Toque para ver o significado'}</p>
+            )}
+          </div>
+          {revealed && (
+            <div className="grid grid-cols-4 gap-3 mt-4">
+              {REVIEW_GRADES.map(({ grade, label }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`py-3 rounded-xl font-bold text-sm transition-colors ${grade < 3 ? 'bg-red-500/20 hover:bg-red-500/30 text-red-300' : 'bg-gray-700 hover:bg-gray-600 text-white'}`}
+                >
+                  {label}
+                  <span className="block text-[10px] font-medium opacity-60">{formatInterval(reviewCard(current, grade).intervalDays)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-center py-12 bg-gray-800/30 rounded-3xl border border-gray-700">
+          <p className="text-green-400 text-lg font-bold">Tudo revisado por hoje!</p>
+          <p className="text-gray-500 text-sm mt-1">Volte amanhã para as próximas revisões.</p>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-bold text-gray-400 uppercase tracking-widest mb-3">Seu baralho · {cards.length} palavras</h4>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {cards.map(card => (
+            <div key={card.id} className="flex items-center justify-between gap-3 p-4 bg-gray-800 rounded-xl border border-gray-700">
+              <div className="min-w-0">
+                <p className="font-bold text-white truncate">
+                  {card.mistaken && <span className="text-pink-300/70 line-through font-medium mr-2">{card.mistaken}</span>}
+                  {card.term}
+                </p>
+                <p className="text-xs text-gray-400 truncate">{card.meaning}</p>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <span className={`text-[10px] font-bold uppercase tracking-wider ${isDue(card) ? 'text-yellow-400' : 'text-gray-500'}`}>
+                  {isDue(card) ? 'hoje' : new Date(`${card.dueDate}T00:00:00`).toLocaleDateString()}
+                </span>
+                <SpeakButton text={card.term} />
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VocabularyDeck;
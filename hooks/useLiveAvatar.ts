@@ -1,18 +1,118 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
 import { createBlob, decode, decodeAudioData } from '../utils/audio';
-import { AvatarConfig } from '../types';
+import { startMicCapture, MicCapture } from '../utils/micCapture';
+import { startSessionRecorder, SessionRecorder, RecordingOptions } from '../utils/sessionRecorder';
+import { VoiceActivityGate } from '../utils/voiceGate';
+import { WsolaStretcher } from '../utils/timeStretch';
+import { UserSpeechBuffer } from '../utils/userSpeech';
+import { AvatarConfig, DifficultyParameters, InputMode, MicMode, Scenario } from '../types';
+
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+// Reconnect backoff: 1s, 2s, 4s, 8s, 15s, 15s
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+export const MIC_ACCESS_ERROR = "Microphone access required";
+
+// Turn boundaries signalled by the server: the tutor finished, or the learner cut the tutor off
+export type TurnEvent = 'turnComplete' | 'interrupted';
+
+export interface ConnectOptions {
+  inputMode?: InputMode;
+  micMode?: MicMode;
+  // Devices picked in the pre-session check; missing devices fall back to the system default
+  audioInputId?: string;
+  audioOutputId?: string;
+}
 
 interface UseLiveAvatarProps {
   avatarConfig: AvatarConfig;
   onTranscriptUpdate: (text: string, isUser: boolean) => void;
+  onTurnEvent?: (event: TurnEvent) => void;
+  // Recent conversation summary, replayed to the tutor when the previous session can't be resumed
+  getResumeContext?: () => string;
+  // Opt-in recording of the whole session (learner + tutor); null disables it
+  recording?: RecordingOptions | null;
+  // Tutor playback speed (1 = native); pitch is preserved. Can change mid-session.
+  speechRate?: number;
+  // Role-play scenario; null/undefined for free conversation
+  scenario?: Scenario | null;
+  // Difficulty from the learner's history (utils/learnerModel); null for a new learner
+  difficulty?: DifficultyParameters | null;
 }
 
-export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvatarProps) => {
+const PACE_INSTRUCTIONS: Record<DifficultyParameters['pace'], string> = {
+  slow: 'Speak slowly and clearly, with short pauses between sentences.',
+  moderate: 'Speak at a moderate pace, a little slower than with a native speaker.',
+  natural: 'Speak at a natural, native pace.'
+};
+
+const SCAFFOLDING_INSTRUCTIONS: Record<DifficultyParameters['portugueseScaffolding'], string> = {
+  frequent: 'You may use short Portuguese explanations whenever the learner is lost, then switch back to English.',
+  occasional: 'Use Portuguese only when the learner is stuck after a simpler English explanation.',
+  rare: 'Avoid Portuguese; use it only as a last resort for a single word.',
+  none: 'Do not use Portuguese at all, even if the learner does.'
+};
+
+const buildDifficultyInstruction = (avatarConfig: AvatarConfig, difficulty?: DifficultyParameters | null) => {
+  if (!difficulty) {
+    return `This is a new learner: start with simple English and adapt to how they respond.`;
+  }
+  const lines = [
+    `Use ${difficulty.vocabularyRange}.`,
+    `Keep your sentences under ${difficulty.maxSentenceWords} words.`,
+    PACE_INSTRUCTIONS[difficulty.pace],
+    ...(avatarConfig.understandsPortuguese ? [SCAFFOLDING_INSTRUCTIONS[difficulty.portugueseScaffolding]] : [])
+  ];
+  let instruction = `Adapt to this learner, based on their previous lessons:
+          ${lines.map(line => `- ${line}`).join('\n          ')}`;
+  if (difficulty.focusPoints.length) {
+    instruction += `
+          Steer the conversation so the learner practises their weak points, and correct them gently when they slip:
+          ${difficulty.focusPoints.map(point => `- ${point}`).join('\n          ')}`;
+  }
+  return instruction;
+};
+
+const buildSystemInstruction = (avatarConfig: AvatarConfig, resumeContext?: string, scenario?: Scenario | null, difficulty?: DifficultyParameters | null) => {
+  let instruction = `You are ${avatarConfig.name}, a helpful English tutor.
+          Your accent is ${avatarConfig.accent}.
+          ${avatarConfig.systemInstruction}.
+          Keep responses concise and encourage the user to speak.
+
+          ${buildDifficultyInstruction(avatarConfig, difficulty)}`;
+
+  if (scenario) {
+    instruction += `
+
+          This lesson is a role-play. Setting: ${scenario.setting}
+          Your role: ${scenario.tutorRole}. Stay in character and open the scene yourself.
+          Steer the conversation so the learner gets the chance to:
+          ${scenario.goals.map(goal => `- ${goal}`).join('\n          ')}
+          Do not read these goals out. If the learner gets stuck, give a short hint in character, then carry on with the scene.`;
+  }
+
+  if (resumeContext) {
+    instruction += `
+
+          The connection dropped in the middle of this lesson and has just been restored.
+          Do not greet the learner again; continue naturally from where you stopped.
+          Recent conversation:
+          ${resumeContext}`;
+  }
+  return instruction;
+};
+
+export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate, onTurnEvent, getResumeContext, recording, speechRate = 1, scenario, difficulty }: UseLiveAvatarProps) => {
   const [isConnected, setIsConnected] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
   const [isTalking, setIsTalking] = useState(false); // Model is talking
   const [error, setError] = useState<string | null>(null);
-  
+  const [isUserSpeaking, setIsUserSpeaking] = useState(false); // Mic audio is currently being sent
+
   // Audio Contexts and Nodes
   const inputAudioContextRef = useRef<AudioContext | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
@@ -20,18 +120,116 @@ export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvata
   const outputNodeRef = useRef<GainNode | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null); // For visualization
   const streamRef = useRef<MediaStream | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const sourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  // Start of the session audio (recording included); turn offsets are measured from here
+  const audioStartedAtRef = useRef<number | null>(null);
+
+  // Mic gating: local VAD in 'vad' mode, hold-to-speak in 'push-to-talk' mode
+  const micModeRef = useRef<MicMode>('vad');
+  const voiceGateRef = useRef(new VoiceActivityGate());
+  const pushToTalkActiveRef = useRef(false);
+  // Learner speech kept for the audio-based pronunciation assessment
+  const speechBufferRef = useRef(new UserSpeechBuffer());
+
   // Playback queue management
   const nextStartTimeRef = useRef<number>(0);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  
+  // Tutor audio actually played (interrupted audio that never played is taken back out)
+  const tutorSpeechSecondsRef = useRef(0);
+  // Slows the tutor down by stretching the PCM itself, so scheduling and the analyser see real durations
+  const stretcherRef = useRef(new WsolaStretcher(speechRate));
+
   // Session
   const sessionPromiseRef = useRef<Promise<any> | null>(null);
   const aiRef = useRef<GoogleGenAI | null>(null);
+  const isLiveRef = useRef(false); // True between onopen and the connection dropping
+
+  // Reconnection
+  // Every live.connect gets a generation; callbacks from an older socket are ignored
+  const generationRef = useRef(0);
+  const hasOpenedRef = useRef(false);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const openSessionRef = useRef<(isReconnect: boolean) => void>(() => {});
+
+  // Latest callbacks, so a session opened long ago never calls a stale closure
+  const onTranscriptUpdateRef = useRef(onTranscriptUpdate);
+  const onTurnEventRef = useRef(onTurnEvent);
+  const getResumeContextRef = useRef(getResumeContext);
+  onTranscriptUpdateRef.current = onTranscriptUpdate;
+  onTurnEventRef.current = onTurnEvent;
+  getResumeContextRef.current = getResumeContext;
+
+  /**
+   * Seconds since the session audio started, i.e. the current position in the session recording.
+   */
+  const getAudioTime = useCallback(() => {
+    return audioStartedAtRef.current ? (Date.now() - audioStartedAtRef.current) / 1000 : 0;
+  }, []);
+
+  const stopPlayback = useCallback(() => {
+    const ctx = outputAudioContextRef.current;
+    if (ctx && sourcesRef.current.size > 0) {
+      tutorSpeechSecondsRef.current -= Math.max(0, nextStartTimeRef.current - ctx.currentTime);
+    }
+    sourcesRef.current.forEach(source => {
+      try { source.stop(); } catch(e) {}
+    });
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+    stretcherRef.current.reset();
+    setIsTalking(false);
+  }, []);
+
+  /**
+   * Queues tutor PCM (24 kHz mono) right after whatever is already scheduled.
+   */
+  const scheduleTutorAudio = useCallback((samples: Float32Array) => {
+    const ctx = outputAudioContextRef.current;
+    if (!ctx || !analyserRef.current || samples.length === 0) return;
+
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+    const audioBuffer = ctx.createBuffer(1, samples.length, 24000);
+    audioBuffer.getChannelData(0).set(samples);
+
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    // Connect source to Analyser (which goes to speakers)
+    source.connect(analyserRef.current);
+
+    source.addEventListener('ended', () => {
+      sourcesRef.current.delete(source);
+      if (sourcesRef.current.size === 0) {
+        setIsTalking(false);
+      }
+    });
+
+    source.start(nextStartTimeRef.current);
+    nextStartTimeRef.current += audioBuffer.duration;
+    tutorSpeechSecondsRef.current += audioBuffer.duration;
+    sourcesRef.current.add(source);
+  }, []);
+
+  // Speed changes apply from the next chunk on; audio already buffered in the old stretcher is played out first
+  useEffect(() => {
+    scheduleTutorAudio(stretcherRef.current.flush());
+    stretcherRef.current = new WsolaStretcher(speechRate);
+  }, [speechRate, scheduleTutorAudio]);
 
   const disconnect = useCallback(async () => {
+    // Invalidate the current generation first so its onclose doesn't trigger a reconnect
+    generationRef.current++;
+    isLiveRef.current = false;
+    hasOpenedRef.current = false;
+    resumptionHandleRef.current = null;
+    reconnectAttemptsRef.current = 0;
+    if (reconnectTimerRef.current) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+
     if (sessionPromiseRef.current) {
       try {
         const session = await sessionPromiseRef.current;
@@ -42,11 +240,20 @@ export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvata
       sessionPromiseRef.current = null;
     }
 
+    // A recording not collected through stopRecording() is discarded
+    if (recorderRef.current) {
+      recorderRef.current.stop().catch(() => {});
+      recorderRef.current = null;
+    }
+
+    // Stop mic capture before tearing down its context
+    if (micCaptureRef.current) {
+      micCaptureRef.current.stop();
+      micCaptureRef.current = null;
+    }
+
     // Stop all playing sources
-    sourcesRef.current.forEach(source => {
-      try { source.stop(); } catch(e) {}
-    });
-    sourcesRef.current.clear();
+    stopPlayback();
 
     // Close audio contexts
     if (inputAudioContextRef.current) {
@@ -57,27 +264,252 @@ export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvata
       outputAudioContextRef.current.close();
       outputAudioContextRef.current = null;
     }
-    
+
     // Stop mic stream
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
 
+    pushToTalkActiveRef.current = false;
+    setIsUserSpeaking(false);
     setIsConnected(false);
-    setIsTalking(false);
+    setIsReconnecting(false);
+  }, [stopPlayback]);
+
+  /**
+   * Drops the current socket and schedules a new one with exponential backoff.
+   * Audio contexts, the mic stream and the resumption handle are kept across attempts.
+   */
+  const handleConnectionLost = useCallback((generation: number, reason: string | null, options: { immediate?: boolean, failedResume?: boolean } = {}) => {
+    if (generation !== generationRef.current) return;
+    generationRef.current++;
+    isLiveRef.current = false;
+
+    const deadSession = sessionPromiseRef.current;
+    sessionPromiseRef.current = null;
+    deadSession?.then(session => {
+      try { session.close(); } catch (e) {}
+    }).catch(() => {});
+
+    stopPlayback();
+    setIsConnected(false);
+
+    // A handle the server refused is useless; fall back to replaying the transcript
+    if (options.failedResume) {
+      resumptionHandleRef.current = null;
+    }
+
+    // Never got a session up at all (bad key, no network): fail fast instead of retrying
+    if (!hasOpenedRef.current || reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      setError(reason || "Connection lost. Please try again.");
+      disconnect();
+      return;
+    }
+
+    const delay = options.immediate
+      ? 0
+      : Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttemptsRef.current, RECONNECT_MAX_DELAY_MS);
+    if (!options.immediate) reconnectAttemptsRef.current++;
+
+    console.log(`Reconnecting in ${delay}ms (attempt ${reconnectAttemptsRef.current})`, reason);
+    setIsReconnecting(true);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openSessionRef.current(true);
+    }, delay);
+  }, [disconnect, stopPlayback]);
+
+  const openSession = useCallback((isReconnect: boolean) => {
+    if (!aiRef.current) return;
+
+    const generation = ++generationRef.current;
+    const resumeHandle = resumptionHandleRef.current;
+    // With a valid handle the server restores the context itself
+    const resumeContext = isReconnect && !resumeHandle ? getResumeContextRef.current?.() : undefined;
+    let opened = false;
+
+    const config = {
+      model: LIVE_MODEL,
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: avatarConfig.voice } },
+        },
+        systemInstruction: buildSystemInstruction(avatarConfig, resumeContext, scenario, difficulty),
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        sessionResumption: resumeHandle ? { handle: resumeHandle } : {},
+        // Push-to-talk drives turns explicitly through activityStart/activityEnd
+        ...(micModeRef.current === 'push-to-talk' && { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } }),
+      }
+    };
+
+    const sessionPromise = aiRef.current.live.connect({
+      ...config,
+      callbacks: {
+        onopen: () => {
+          if (generation !== generationRef.current) return;
+          console.log(isReconnect ? "Connection resumed" : "Connection opened");
+          opened = true;
+          hasOpenedRef.current = true;
+          isLiveRef.current = true;
+          voiceGateRef.current.reset();
+          pushToTalkActiveRef.current = false;
+          setIsUserSpeaking(false);
+          reconnectAttemptsRef.current = 0;
+          setIsConnected(true);
+          setIsReconnecting(false);
+        },
+        onmessage: async (message: LiveServerMessage) => {
+           if (generation !== generationRef.current) return;
+
+           // Track the latest resumable state of the session
+           const resumption = message.sessionResumptionUpdate;
+           if (resumption?.resumable && resumption.newHandle) {
+              resumptionHandleRef.current = resumption.newHandle;
+           }
+
+           // Server is about to drop us: move to a fresh connection right away
+           if (message.goAway) {
+              handleConnectionLost(generation, "Server requested reconnect", { immediate: true });
+              return;
+           }
+
+           // Handle Transcriptions
+           if (message.serverContent?.outputTranscription?.text) {
+              onTranscriptUpdateRef.current(message.serverContent.outputTranscription.text, false);
+           }
+           if (message.serverContent?.inputTranscription?.text) {
+              onTranscriptUpdateRef.current(message.serverContent.inputTranscription.text, true);
+           }
+
+           // Handle Audio Output
+           const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+           if (base64Audio && outputAudioContextRef.current && analyserRef.current) {
+              setIsTalking(true);
+
+              try {
+                const audioBuffer = await decodeAudioData(
+                  decode(base64Audio),
+                  outputAudioContextRef.current,
+                  24000,
+                  1
+                );
+                scheduleTutorAudio(stretcherRef.current.process(audioBuffer.getChannelData(0)));
+              } catch (err) {
+                console.error("Audio decode error", err);
+              }
+           }
+
+           // Handle Interruption
+           if (message.serverContent?.interrupted) {
+             stopPlayback();
+             onTurnEventRef.current?.('interrupted');
+           }
+
+           // The stretcher holds back a few ms of audio; release them when the tutor's turn ends
+           if (message.serverContent?.turnComplete) {
+             scheduleTutorAudio(stretcherRef.current.flush());
+             onTurnEventRef.current?.('turnComplete');
+           }
+        },
+        onclose: (event) => {
+          if (generation !== generationRef.current) return;
+          console.log("Connection closed", event);
+          handleConnectionLost(generation, event?.reason || null, { failedResume: !opened && !!resumeHandle });
+        },
+        onerror: (err) => {
+          if (generation !== generationRef.current) return;
+          console.error("Connection error", err);
+          // Provide more specific error message if possible
+          let msg = "Connection lost. Please try again.";
+          if (err instanceof Error) {
+              msg = err.message;
+          } else if ((err as any)?.message) {
+              msg = (err as any).message;
+          }
+          handleConnectionLost(generation, msg, { failedResume: !opened && !!resumeHandle });
+        }
+      }
+    });
+
+    sessionPromiseRef.current = sessionPromise;
+    sessionPromise.catch((err: any) => {
+      console.error("Failed to open Live session", err);
+      handleConnectionLost(generation, err?.message || null, { failedResume: !!resumeHandle });
+    });
+  }, [avatarConfig, scenario, difficulty, handleConnectionLost, scheduleTutorAudio, stopPlayback]);
+
+  openSessionRef.current = openSession;
+
+  const sendRealtime = useCallback((input: Record<string, unknown>) => {
+    sessionPromiseRef.current?.then(session => {
+      session.sendRealtimeInput(input);
+    }).catch(() => {});
   }, []);
 
-  const connect = useCallback(async () => {
+  /**
+   * Filters a 100 ms mic chunk through the selected mic mode before it reaches Gemini.
+   * Silence is never sent, which avoids false `interrupted` events from background noise.
+   */
+  const handleMicChunk = useCallback((chunk: Float32Array) => {
+    if (!isLiveRef.current || !sessionPromiseRef.current) return;
+
+    if (micModeRef.current === 'push-to-talk') {
+      if (pushToTalkActiveRef.current) {
+        sendRealtime({ media: createBlob(chunk) });
+        speechBufferRef.current.append([chunk], getAudioTime());
+      }
+      return;
+    }
+
+    const gate = voiceGateRef.current.process(chunk);
+    gate.chunks.forEach(c => sendRealtime({ media: createBlob(c) }));
+    speechBufferRef.current.append(gate.chunks, getAudioTime());
+    if (gate.started) setIsUserSpeaking(true);
+    if (gate.ended) {
+      speechBufferRef.current.end();
+      setIsUserSpeaking(false);
+      // Lets the server close the turn right away instead of waiting for more audio
+      sendRealtime({ audioStreamEnd: true });
+    }
+  }, [sendRealtime, getAudioTime]);
+
+  /**
+   * Hold-to-speak control for 'push-to-talk' mode (button or spacebar in Session).
+   */
+  const setPushToTalk = useCallback((active: boolean) => {
+    if (micModeRef.current !== 'push-to-talk' || pushToTalkActiveRef.current === active) return;
+    pushToTalkActiveRef.current = active;
+    if (!active) speechBufferRef.current.end();
+    setIsUserSpeaking(active);
+    if (!isLiveRef.current) return;
+    sendRealtime(active ? { activityStart: {} } : { activityEnd: {} });
+  }, [sendRealtime]);
+
+  /**
+   * Opens the Live session. In 'text' mode no microphone is requested: the learner's turns
+   * arrive through sendText() and the tutor still answers with audio and transcription.
+   */
+  const connect = useCallback(async ({ inputMode = 'voice', micMode = 'vad', audioInputId, audioOutputId }: ConnectOptions = {}) => {
     try {
       setError(null);
+      micModeRef.current = micMode;
+      speechBufferRef.current.reset();
+      tutorSpeechSecondsRef.current = 0;
+      hasOpenedRef.current = false;
+      resumptionHandleRef.current = null;
+      reconnectAttemptsRef.current = 0;
+
       // Initialize Audio Contexts
       const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      
+
       // Create contexts
-      inputAudioContextRef.current = new AudioContextClass({ sampleRate: 16000 });
+      // Input runs at the hardware rate; micCapture resamples to 16 kHz itself
+      inputAudioContextRef.current = new AudioContextClass();
       outputAudioContextRef.current = new AudioContextClass({ sampleRate: 24000 });
-      
+
       // CRITICAL: Ensure contexts are running (handle autoplay policy)
       if (inputAudioContextRef.current.state === 'suspended') {
         await inputAudioContextRef.current.resume();
@@ -86,6 +518,15 @@ export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvata
         await outputAudioContextRef.current.resume();
       }
 
+      // Route the tutor to the chosen speaker where the browser supports it
+      if (audioOutputId && 'setSinkId' in outputAudioContextRef.current) {
+        try {
+          await (outputAudioContextRef.current as any).setSinkId(audioOutputId);
+        } catch (sinkError) {
+          console.warn("Could not switch audio output, using default", sinkError);
+        }
+      }
+
       // Setup Analyser for Visualization
       analyserRef.current = outputAudioContextRef.current.createAnalyser();
       analyserRef.current.fftSize = 512;
@@ -93,18 +534,20 @@ export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvata
 
       inputNodeRef.current = inputAudioContextRef.current.createGain();
       outputNodeRef.current = outputAudioContextRef.current.createGain();
-      
+
       // Chain: Analyser -> Gain -> Destination
       // Note: Sources will connect to Analyser
       analyserRef.current.connect(outputNodeRef.current);
       outputNodeRef.current.connect(outputAudioContextRef.current.destination);
 
       // Get Mic Stream
-      try {
-        streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true });
-      } catch (micError) {
-        console.error("Microphone permission denied or missing", micError);
-        throw new Error("Microphone access required");
+      if (inputMode === 'voice') {
+        try {
+          streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: audioInputId ? { deviceId: audioInputId } : true });
+        } catch (micError) {
+          console.error("Microphone permission denied or missing", micError);
+          throw new Error(MIC_ACCESS_ERROR);
+        }
       }
 
       // Initialize Gemini Client
@@ -113,144 +556,77 @@ export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvata
          throw new Error("API Key is missing in environment variables");
       }
       aiRef.current = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const config = {
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: avatarConfig.voice } },
-          },
-          systemInstruction: `You are ${avatarConfig.name}, a helpful English tutor. 
-          Your accent is ${avatarConfig.accent}. 
-          ${avatarConfig.systemInstruction}.
-          Keep responses concise and encourage the user to speak.`,
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-        }
-      };
-
-      sessionPromiseRef.current = aiRef.current.live.connect({
-        ...config,
-        callbacks: {
-          onopen: () => {
-            console.log("Connection opened");
-            setIsConnected(true);
-            
-            // Start Audio Streaming
-            if (!inputAudioContextRef.current || !streamRef.current) return;
-            
-            sourceRef.current = inputAudioContextRef.current.createMediaStreamSource(streamRef.current);
-            processorRef.current = inputAudioContextRef.current.createScriptProcessor(4096, 1, 1);
-            
-            processorRef.current.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              
-              // Audio Resampling Logic: Ensure we send 16000Hz data to Gemini
-              // Many browsers force 44.1k or 48k even if we request 16k
-              const currentSampleRate = inputAudioContextRef.current?.sampleRate || 16000;
-              const targetSampleRate = 16000;
-              let finalData = inputData;
-
-              if (currentSampleRate !== targetSampleRate) {
-                  const ratio = currentSampleRate / targetSampleRate;
-                  const newLength = Math.floor(inputData.length / ratio);
-                  finalData = new Float32Array(newLength);
-                  for (let i = 0; i < newLength; i++) {
-                      finalData[i] = inputData[Math.floor(i * ratio)];
-                  }
-              }
 
-              const pcmBlob = createBlob(finalData);
-              
-              if (sessionPromiseRef.current) {
-                sessionPromiseRef.current.then(session => {
-                  session.sendRealtimeInput({ media: pcmBlob });
-                });
-              }
-            };
-
-            sourceRef.current.connect(processorRef.current);
-            processorRef.current.connect(inputAudioContextRef.current.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-             // Handle Transcriptions
-             if (message.serverContent?.outputTranscription?.text) {
-                onTranscriptUpdate(message.serverContent.outputTranscription.text, false);
-             }
-             if (message.serverContent?.inputTranscription?.text) {
-                onTranscriptUpdate(message.serverContent.inputTranscription.text, true);
-             }
-
-             // Handle Audio Output
-             const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-             if (base64Audio && outputAudioContextRef.current && analyserRef.current) {
-                setIsTalking(true);
-                const ctx = outputAudioContextRef.current;
-                nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-                
-                try {
-                  const audioBuffer = await decodeAudioData(
-                    decode(base64Audio),
-                    ctx,
-                    24000,
-                    1
-                  );
-                  
-                  const source = ctx.createBufferSource();
-                  source.buffer = audioBuffer;
-                  // Connect source to Analyser (which goes to speakers)
-                  source.connect(analyserRef.current);
-                  
-                  source.addEventListener('ended', () => {
-                    sourcesRef.current.delete(source);
-                    if (sourcesRef.current.size === 0) {
-                      setIsTalking(false);
-                    }
-                  });
-
-                  source.start(nextStartTimeRef.current);
-                  nextStartTimeRef.current += audioBuffer.duration;
-                  sourcesRef.current.add(source);
-                } catch (err) {
-                  console.error("Audio decode error", err);
-                }
-             }
-
-             // Handle Interruption
-             if (message.serverContent?.interrupted) {
-               sourcesRef.current.forEach(s => s.stop());
-               sourcesRef.current.clear();
-               nextStartTimeRef.current = 0;
-               setIsTalking(false);
-             }
-          },
-          onclose: (event) => {
-            console.log("Connection closed", event);
-            setIsConnected(false);
-            setIsTalking(false);
-          },
-          onerror: (err) => {
-            console.error("Connection error", err);
-            // Provide more specific error message if possible
-            let msg = "Connection lost. Please try again.";
-            if (err instanceof Error) {
-                msg = err.message;
-            } else if ((err as any)?.message) {
-                msg = (err as any).message;
-            }
-            setError(msg);
-            disconnect();
-          }
+      // Start Audio Streaming
+      // Capture outlives individual sockets: chunks are dropped while (re)connecting
+      if (streamRef.current) {
+        micCaptureRef.current = await startMicCapture(inputAudioContextRef.current, streamRef.current, handleMicChunk);
+      }
+
+      audioStartedAtRef.current = Date.now();
+
+      // Recording is best-effort: a failure here must not block the lesson
+      if (recording) {
+        try {
+          recorderRef.current = await startSessionRecorder(outputAudioContextRef.current, streamRef.current, analyserRef.current, recording);
+        } catch (recError) {
+          console.error("Failed to start session recording", recError);
         }
-      });
+      }
 
+      openSession(false);
     } catch (err: any) {
       console.error("Failed to connect", err);
       setError(err.message || "Failed to access microphone or connect to service.");
       disconnect();
     }
-  }, [avatarConfig, disconnect, onTranscriptUpdate]);
+  }, [disconnect, openSession, handleMicChunk, recording]);
+
+  /**
+   * Sends a typed learner turn. Returns false while the session is not live (e.g. reconnecting).
+   */
+  const sendText = useCallback((text: string) => {
+    if (!isLiveRef.current || !sessionPromiseRef.current) return false;
+    sessionPromiseRef.current.then(session => {
+      session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    }).catch(() => {});
+    return true;
+  }, []);
+
+  // Silences the speakers only; transcription, the avatar animation and recording keep running
+  const setOutputMuted = useCallback((muted: boolean) => {
+    if (outputNodeRef.current) {
+      outputNodeRef.current.gain.value = muted ? 0 : 1;
+    }
+  }, []);
+
+  /**
+   * Finalizes the session recording, if any. Must run before disconnect(), which closes the audio contexts.
+   */
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!recorder) return null;
+    try {
+      return await recorder.stop();
+    } catch (e) {
+      console.error("Failed to finalize session recording", e);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Learner speech captured so far, one segment per VAD run / push-to-talk press. Empty in text mode.
+   */
+  const getUserAudio = useCallback(() => speechBufferRef.current.getSegments(), []);
+
+  /**
+   * Measured speaking time of each side, in seconds: learner speech sent to Gemini and tutor audio played.
+   */
+  const getSpeakingTimes = useCallback(() => ({
+    userSpeakingSeconds: speechBufferRef.current.spokenSeconds,
+    tutorSpeakingSeconds: Math.max(0, tutorSpeechSecondsRef.current)
+  }), []);
 
   useEffect(() => {
     return () => {
@@ -258,5 +634,5 @@ export const useLiveAvatar = ({ avatarConfig, onTranscriptUpdate }: UseLiveAvata
     };
   }, [disconnect]);
 
-  return { connect, disconnect, isConnected, isTalking, error, analyserNode: analyserRef.current };
-};
\ No newline at end of file
+  return { connect, disconnect, sendText, setOutputMuted, setPushToTalk, stopRecording, getAudioTime, getUserAudio, getSpeakingTimes, isConnected, isReconnecting, isTalking, isUserSpeaking, error, analyserNode: analyserRef.current };
+};
@@ -0,0 +1,88 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import { checkTurnGrammar } from '../services/gemini';
+import { TurnCorrection } from '../types';
+
+// At most one check every few seconds, whatever the pace of the conversation
+const MIN_INTERVAL_MS = 4000;
+// When the learner talks faster than we check, the oldest pending turns are dropped
+const MAX_QUEUED = 3;
+// "Yes", "okay, thanks" and the like are not worth a request
+const MIN_WORDS = 3;
+
+interface QueuedTurn {
+  turnIndex: number;
+  text: string;
+}
+
+/**
+ * Live grammar check of the learner's turns, one request at a time and rate-limited.
+ * Corrections are keyed by the turn's index in the session turn log; turns without mistakes get no entry.
+ */
+export const useTurnCorrections = (enabled: boolean) => {
+  const [corrections, setCorrections] = useState<Record<number, TurnCorrection>>({});
+  const [checkingTurn, setCheckingTurn] = useState<number | null>(null);
+
+  const queueRef = useRef<QueuedTurn[]>([]);
+  const busyRef = useRef(false);
+  const lastRequestAtRef = useRef(0);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const enabledRef = useRef(enabled);
+  enabledRef.current = enabled;
+
+  const processQueue = useCallback(async () => {
+    if (busyRef.current || timerRef.current) return;
+
+    const wait = lastRequestAtRef.current + MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null;
+        processQueue();
+      }, wait);
+      return;
+    }
+
+    const item = queueRef.current.shift();
+    if (!item) return;
+
+    busyRef.current = true;
+    lastRequestAtRef.current = Date.now();
+    setCheckingTurn(item.turnIndex);
+    const correction = await checkTurnGrammar(item.text);
+    busyRef.current = false;
+    setCheckingTurn(null);
+
+    if (correction && enabledRef.current) {
+      setCorrections(prev => ({ ...prev, [item.turnIndex]: correction }));
+    }
+    processQueue();
+  }, []);
+
+  /**
+   * Queues a completed learner turn for checking. No-op while the feature is off.
+   */
+  const checkTurn = useCallback((turnIndex: number, text: string) => {
+    if (!enabledRef.current || text.trim().split(/\s+/).length < MIN_WORDS) return;
+    queueRef.current.push({ turnIndex, text: text.trim() });
+    if (queueRef.current.length > MAX_QUEUED) queueRef.current.shift();
+    processQueue();
+  }, [processQueue]);
+
+  // Turning the feature off drops whatever is still waiting, including the rate-limit timer
+  useEffect(() => {
+    if (enabled) return;
+    queueRef.current = [];
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, [enabled]);
+
+  useEffect(() => {
+    return () => {
+      queueRef.current = [];
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  return { corrections, checkingTurn, checkTurn };
+};
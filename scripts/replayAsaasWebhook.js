@@ -0,0 +1,39 @@
+// Reenvia payloads gravados de webhook do Asaas para o servidor local, para testar a rota sem o Asaas.
+//
+//   ASAAS_WEBHOOK_TOKEN=... node scripts/replayAsaasWebhook.js scripts/fixtures/asaas/payment-received.json [--payment pay_123] [--times 2]
+//
+// --payment troca o id da cobrança (use o asaas_id de uma linha real de `payments`);
+// --times reenvia cada payload N vezes, como o Asaas faz quando não recebe resposta.
+import { readFile } from 'fs/promises';
+
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:3001/api/webhooks/asaas';
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args.splice(index, 2)[1];
+};
+const paymentId = option('--payment');
+const times = Number(option('--times')) || 1;
+
+if (!args.length) {
+  console.error('Informe ao menos um arquivo de payload.');
+  process.exit(1);
+}
+
+for (const file of args) {
+  const payload = JSON.parse(await readFile(file, 'utf8'));
+  if (paymentId) payload.payment = { ...payload.payment, id: paymentId };
+
+  for (let i = 0; i < times; i++) {
+    const response = await fetch(WEBHOOK_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'asaas-access-token': process.env.ASAAS_WEBHOOK_TOKEN || ''
+      },
+      body: JSON.stringify(payload)
+    });
+    console.log(`${file} (${payload.event}) #${i + 1}: ${response.status}`, await response.text());
+  }
+}
@@ -1,8 +1,13 @@
 
 const express = require('express');
 const cors = require('cors');
+const crypto = require('crypto');
 const fetch = (...args) => import('node-fetch').then(({default: fetch}) => fetch(...args));
 require('dotenv').config();
+const { createAsaasWebhook } = require('./server/asaasWebhook.cjs');
+const { createCheckout } = require('./server/checkout.cjs');
+const { getPublicPricing } = require('./server/pricing.cjs');
+const { createSessionEvaluation } = require('./server/sessionEvaluation.cjs');
 
 const app = express();
 const PORT = 3001;
@@ -16,46 +21,421 @@ app.use(express.json());
 
 const VERCEL_API_URL = 'https://asaas-api-segura.vercel.app/api';
 
-app.post('/api/processar-pagamento', async (req, res) => {
-  try {
-    console.log('--- PROXY: NOVO POST RECEBIDO ---');
-    console.log('Body:', req.body);
-    
-    // O Proxy faz a chamada para a Vercel via Server-side Fetch.
-    // Aqui não existe restrição de CORS, então enviamos como JSON para a Vercel.
-    const response = await fetch(`${VERCEL_API_URL}/processar-pagamento`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(req.body)
+app.get('/api/checar-status', async (req, res) => {
+  try {
+    const { id } = req.query;
+    const response = await fetch(`${VERCEL_API_URL}/checar-status?id=${id}`, {
+        method: 'GET'
     });
-
     const data = await response.json();
-    console.log('Status da Vercel:', response.status);
+    res.status(response.status).json(data);
+  } catch (error) {
+    res.status(500).json({ error: 'Erro no proxy ao checar status.' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Medição de créditos no servidor.
+// A sessão ao vivo abre uma "lease", manda heartbeats enquanto a conexão está de pé e o tempo é
+// debitado aqui, com a chave de serviço do Supabase. O navegador só exibe o saldo que recebe.
+// Todo movimento é um lançamento imutável em credit_ledger; profiles.credits é o saldo mantido
+// por trigger a partir do extrato (ver README).
+// ---------------------------------------------------------------------------
+
+const SUPABASE_URL = (process.env.SUPABASE_URL || 'https://ebjihooaxlqulzrlyoyc.supabase.co').trim();
+const SUPABASE_SERVICE_ROLE_KEY = (process.env.SUPABASE_SERVICE_ROLE_KEY || '').trim();
+// Token dos ajustes manuais e bônus (POST /api/admin/credits); sem ele a rota fica desativada
+const ADMIN_API_TOKEN = (process.env.ADMIN_API_TOKEN || '').trim();
+
+// O cliente manda heartbeat a cada 10s; sem heartbeat por 30s a lease é encerrada
+const LEASE_TIMEOUT_MS = 30000;
+const LEASE_SWEEP_INTERVAL_MS = 10000;
+const MAX_DEBIT_ATTEMPTS = 5;
+// Violação de check do Postgres: o lançamento deixaria profiles.credits negativo
+const CHECK_VIOLATION = '23514';
+const ADMIN_ENTRY_KINDS = ['bonus', 'adjustment'];
+
+// Leases abertas, por id. Ficam em memória: se o servidor reiniciar, o cliente abre outra no próximo heartbeat.
+const leases = new Map();
+
+const supabaseRest = async (path, options = {}) => {
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    ...options,
+    headers: {
+      apikey: SUPABASE_SERVICE_ROLE_KEY,
+      Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      Prefer: 'return=representation',
+      ...options.headers
+    }
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    const error = new Error(`Supabase ${response.status}: ${body.message || response.statusText}`);
+    error.code = body.code;
+    throw error;
+  }
+  return response.json();
+};
+
+// Usuário dono do token de acesso do Supabase enviado pelo navegador (Authorization: Bearer ...)
+const getAuthenticatedUserId = async (req) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  const response = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+    headers: { apikey: SUPABASE_SERVICE_ROLE_KEY, Authorization: `Bearer ${token}` }
+  });
+  if (!response.ok) return null;
+  const user = await response.json();
+  return user.id || null;
+};
+
+const getCredits = async (userId) => {
+  const rows = await supabaseRest(`profiles?id=eq.${userId}&select=credits`);
+  return rows.length ? rows[0].credits : null;
+};
+
+/**
+ * Grava um lançamento no extrato. A idempotency key é única: repetir a mesma operação (retry, evento duplicado)
+ * não lança de novo. Retorna false quando o lançamento já existia.
+ */
+const recordLedgerEntry = async (entry) => {
+  const rows = await supabaseRest('credit_ledger?on_conflict=idempotency_key', {
+    method: 'POST',
+    headers: { Prefer: 'return=representation,resolution=ignore-duplicates' },
+    body: JSON.stringify(entry)
+  });
+  return rows.length > 0;
+};
+
+// Débito limitado ao saldo; se outro débito entrou no meio tempo, o check do banco recusa e relemos o saldo.
+// Retorna os segundos efetivamente debitados (0 se a idempotency key já tinha sido usada).
+const recordDebit = async (userId, seconds, entry) => {
+  for (let attempt = 0; attempt < MAX_DEBIT_ATTEMPTS; attempt++) {
+    const current = await getCredits(userId);
+    if (current === null) throw new Error(`Perfil ${userId} não encontrado`);
+    const amount = Math.min(seconds, current);
+    if (amount <= 0) return 0;
+
+    try {
+      return await recordLedgerEntry({ ...entry, user_id: userId, amount: -amount }) ? amount : 0;
+    } catch (error) {
+      if (error.code !== CHECK_VIOLATION) throw error;
+    }
+  }
+  throw new Error(`Saldo de ${userId} em disputa; débito de ${seconds}s não aplicado`);
+};
 
-    if (!response.ok) {
-        return res.status(response.status).json(data);
+const debitSession = (lease, seconds) => recordDebit(lease.userId, seconds, {
+  kind: 'session',
+  session_ref: lease.sessionRef,
+  description: 'Sessão de conversa',
+  // Uma chave por cobrança da lease: se a resposta de um lançamento gravado se perder, nada é debitado duas vezes
+  idempotency_key: `lease:${lease.id}:${lease.debits++}`
+});
+
+// profiles.credits é um cache do extrato; se divergir (edição direta no banco, trigger desativado), o extrato vence
+const reconcileCredits = async (userId) => {
+  const credits = await getCredits(userId);
+  if (credits === null) return null;
+
+  const [balance] = await supabaseRest(`credit_balances?user_id=eq.${userId}`);
+  const ledgerCredits = balance ? Number(balance.credits) : 0;
+  if (ledgerCredits === credits) return credits;
+
+  console.warn(`[Ledger] Saldo de ${userId} divergente: perfil ${credits}s, extrato ${ledgerCredits}s. Corrigindo pelo extrato.`);
+  await supabaseRest(`profiles?id=eq.${userId}&credits=eq.${credits}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ credits: ledgerCredits })
+  });
+  return getCredits(userId);
+};
+
+// Cobra o tempo real desde a última cobrança. Aba em segundo plano atrasa os heartbeats, mas a sessão
+// continua aberta; só o que passar do timeout da lease é tempo sem conexão e não é cobrado.
+const billLease = async (lease, now) => {
+  const elapsedMs = Math.min(now - lease.billedUntil, LEASE_TIMEOUT_MS);
+  const seconds = Math.floor(elapsedMs / 1000);
+  lease.billedUntil = now - (elapsedMs - seconds * 1000);
+  if (seconds > 0) lease.secondsDebited += await debitSession(lease, seconds);
+  return getCredits(lease.userId);
+};
+
+// Cobranças da mesma lease rodam uma por vez (heartbeat e encerramento podem chegar juntos)
+const runExclusive = (lease, task) => {
+  const run = lease.queue.then(task, task);
+  lease.queue = run.catch(() => {});
+  return run;
+};
+
+const closeLease = (lease, reason) => {
+  if (!leases.delete(lease.id)) return;
+  console.log(`[Lease] ${lease.id} encerrada (${reason}): ${lease.secondsDebited}s debitados de ${lease.userId}`);
+};
+
+app.post('/api/sessions/lease', async (req, res) => {
+  try {
+    const userId = await getAuthenticatedUserId(req);
+    if (!userId) return res.status(401).json({ error: 'Não autenticado.' });
+
+    const credits = await reconcileCredits(userId);
+    if (credits === null) return res.status(404).json({ error: 'Perfil não encontrado.' });
+    if (credits <= 0) return res.status(402).json({ error: 'Sem créditos.', credits: 0 });
+
+    const now = Date.now();
+    const lease = {
+      id: crypto.randomUUID(),
+      userId,
+      // Mesma sessão em várias leases (após reconexão): os débitos apontam todos para ela
+      sessionRef: typeof req.body.sessionRef === 'string' ? req.body.sessionRef : null,
+      lastHeartbeatAt: now,
+      billedUntil: now,
+      secondsDebited: 0,
+      debits: 0,
+      queue: Promise.resolve()
+    };
+    leases.set(lease.id, lease);
+    console.log(`[Lease] ${lease.id} aberta para ${userId} (${credits}s de saldo)`);
+    res.json({ leaseId: lease.id, credits });
+  } catch (error) {
+    console.error('Erro ao abrir lease:', error.message);
+    res.status(500).json({ error: 'Erro ao iniciar a medição de créditos.' });
+  }
+});
+
+app.post('/api/sessions/lease/:id/heartbeat', async (req, res) => {
+  try {
+    const userId = await getAuthenticatedUserId(req);
+    if (!userId) return res.status(401).json({ error: 'Não autenticado.' });
+
+    const lease = leases.get(req.params.id);
+    if (!lease || lease.userId !== userId) {
+      // Lease vencida ou desconhecida: o cliente decide se abre outra
+      return res.status(410).json({ error: 'Lease encerrada.', credits: await getCredits(userId), closed: true });
     }
 
-    res.json(data);
+    const now = Date.now();
+    lease.lastHeartbeatAt = now;
+    const credits = await runExclusive(lease, () => billLease(lease, now));
+    if (credits <= 0) closeLease(lease, 'créditos esgotados');
+    res.json({ credits, closed: credits <= 0 });
   } catch (error) {
-    console.error('Erro no Proxy:', error.message);
-    res.status(500).json({ error: 'Erro interno no proxy' });
+    console.error('Erro no heartbeat:', error.message);
+    res.status(500).json({ error: 'Erro ao registrar o uso.' });
   }
 });
 
-app.get('/api/checar-status', async (req, res) => {
+app.post('/api/sessions/lease/:id/close', async (req, res) => {
   try {
-    const { id } = req.query;
-    const response = await fetch(`${VERCEL_API_URL}/checar-status?id=${id}`, {
-        method: 'GET'
+    const userId = await getAuthenticatedUserId(req);
+    if (!userId) return res.status(401).json({ error: 'Não autenticado.' });
+
+    const lease = leases.get(req.params.id);
+    if (!lease || lease.userId !== userId) {
+      return res.json({ credits: await getCredits(userId) });
+    }
+
+    const credits = await runExclusive(lease, () => billLease(lease, Date.now()));
+    closeLease(lease, 'sessão finalizada');
+    res.json({ credits });
+  } catch (error) {
+    console.error('Erro ao encerrar lease:', error.message);
+    res.status(500).json({ error: 'Erro ao encerrar a medição de créditos.' });
+  }
+});
+
+// Avaliação das sessões (regras em server/sessionEvaluation.cjs): é ela que rende pontos, então só passa por aqui
+const sessionEvaluation = createSessionEvaluation({
+  db: {
+    getSession: async (sessionId) =>
+      (await supabaseRest(`sessions?id=eq.${encodeURIComponent(sessionId)}&select=user_id,session_ref,evaluation_status`))[0] || null,
+    getMeteredSeconds: async (sessionRef) => {
+      const rows = await supabaseRest(`credit_ledger?session_ref=eq.${encodeURIComponent(sessionRef)}&kind=eq.session&select=amount`);
+      return rows.reduce((sum, row) => sum - row.amount, 0);
+    },
+    updateSession: (sessionId, changes) =>
+      supabaseRest(`sessions?id=eq.${encodeURIComponent(sessionId)}&evaluation_status=neq.done`, {
+        method: 'PATCH',
+        body: JSON.stringify(changes)
+      })
+  }
+});
+
+app.post('/api/sessions/:id/evaluation', async (req, res) => {
+  try {
+    const userId = await getAuthenticatedUserId(req);
+    if (!userId) return res.status(401).json({ error: 'Não autenticado.' });
+
+    const { status, body } = await sessionEvaluation.save(userId, req.params.id, req.body);
+    res.status(status).json(body);
+  } catch (error) {
+    console.error('Erro ao gravar avaliação:', error.message);
+    res.status(500).json({ error: 'Erro ao gravar a avaliação.' });
+  }
+});
+
+// Bônus e ajustes manuais (suporte, estornos). Exige a idempotency key de quem chama, para poder repetir com segurança.
+app.post('/api/admin/credits', async (req, res) => {
+  try {
+    if (!ADMIN_API_TOKEN || req.headers.authorization !== `Bearer ${ADMIN_API_TOKEN}`) {
+      return res.status(401).json({ error: 'Não autorizado.' });
+    }
+
+    const { userId, seconds, kind = 'adjustment', description, idempotencyKey } = req.body;
+    if (!userId || !Number.isInteger(seconds) || seconds === 0 || !ADMIN_ENTRY_KINDS.includes(kind) || !idempotencyKey) {
+      return res.status(400).json({ error: 'Informe userId, seconds (inteiro, diferente de zero), kind (bonus ou adjustment) e idempotencyKey.' });
+    }
+
+    const recorded = await recordLedgerEntry({
+      user_id: userId,
+      amount: seconds,
+      kind,
+      description: description || null,
+      idempotency_key: `${kind}:${idempotencyKey}`
     });
-    const data = await response.json();
-    res.status(response.status).json(data);
+    console.log(`[Ledger] ${kind} de ${seconds}s para ${userId}${recorded ? '' : ' (já lançado)'}`);
+    res.json({ recorded, credits: await getCredits(userId) });
   } catch (error) {
-    res.status(500).json({ error: 'Erro no proxy ao checar status.' });
+    if (error.code === CHECK_VIOLATION) {
+      return res.status(422).json({ error: 'O ajuste deixaria o saldo negativo.' });
+    }
+    console.error('Erro no ajuste de créditos:', error.message);
+    res.status(500).json({ error: 'Erro ao lançar o ajuste.' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Compra de créditos (regras em server/checkout.cjs e server/pricing.cjs). Preço e minutos saem daqui;
+// o navegador só escolhe o pacote ou valor e o cupom.
+// ---------------------------------------------------------------------------
+
+// Cria o PIX na API da Vercel, que fala com o Asaas. Os nomes dos campos da resposta variam; pegamos o que vier.
+const createCharge = async ({ name, email, cpf, value }) => {
+  const response = await fetch(`${VERCEL_API_URL}/processar-pagamento`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      nomeCliente: name,
+      cpfCnpj: cpf,
+      emailCliente: email,
+      valorCreditos: value.toString(),
+      descricao: 'Recarga de Minutos - FluentAI'
+    })
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(`Vercel ${response.status}: ${data.error || response.statusText}`);
+
+  const nested = data.data || {};
+  const pix = data.pix || {};
+  return {
+    id: data.paymentId || data.id || nested.id || '',
+    encodedImage: data.encodedImage || data.qrCode || data.encodedImageBase64 || data.image || pix.encodedImage || nested.encodedImage || '',
+    payload: data.payload || data.copyPaste || data.pixCopyPaste || data.pixCode || pix.payload || nested.payload || '',
+    expirationDate: data.expirationDate || ''
+  };
+};
+
+const checkout = createCheckout({
+  createCharge,
+  db: {
+    releaseExpiredCouponUses: (userId, couponCode, nowIso) =>
+      supabaseRest(
+        `payments?user_id=eq.${userId}&coupon_code=eq.${encodeURIComponent(couponCode)}&status=in.(CREATING,PENDING)&expires_at=lt.${encodeURIComponent(nowIso)}`,
+        { method: 'PATCH', body: JSON.stringify({ coupon_use: null }) }
+      ),
+    getCouponUses: async (userId, couponCode) => {
+      const rows = await supabaseRest(
+        `payments?user_id=eq.${userId}&coupon_code=eq.${encodeURIComponent(couponCode)}&coupon_use=not.is.null&select=coupon_use`
+      );
+      return rows.map(row => row.coupon_use);
+    },
+    insertPayment: (row) => supabaseRest('payments', { method: 'POST', body: JSON.stringify(row) }),
+    updatePayment: (asaasId, changes) =>
+      supabaseRest(`payments?asaas_id=eq.${encodeURIComponent(asaasId)}`, { method: 'PATCH', body: JSON.stringify(changes) })
   }
 });
 
+app.get('/api/pricing', (req, res) => {
+  res.json(getPublicPricing());
+});
+
+app.post('/api/payments/quote', async (req, res) => {
+  try {
+    const userId = await getAuthenticatedUserId(req);
+    if (!userId) return res.status(401).json({ error: 'Não autenticado.' });
+
+    const { status, body } = await checkout.quote(userId, req.body);
+    res.status(status).json(body);
+  } catch (error) {
+    console.error('Erro na cotação:', error.message);
+    res.status(500).json({ error: 'Erro ao calcular o preço.' });
+  }
+});
+
+app.post('/api/payments/checkout', async (req, res) => {
+  try {
+    const userId = await getAuthenticatedUserId(req);
+    if (!userId) return res.status(401).json({ error: 'Não autenticado.' });
+
+    const { status, body } = await checkout.checkout(userId, req.body);
+    res.status(status).json(body);
+  } catch (error) {
+    console.error('Erro ao gerar a cobrança:', error.message);
+    res.status(500).json({ error: 'Erro ao gerar a cobrança.' });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Webhook do Asaas (regras em server/asaasWebhook.cjs), ligado ao Supabase
+// ---------------------------------------------------------------------------
+
+const paymentPath = (asaasId) => `payments?asaas_id=eq.${encodeURIComponent(asaasId)}`;
+const eventPath = (eventId) => `payment_events?event_id=eq.${encodeURIComponent(eventId)}`;
+
+const asaasWebhook = createAsaasWebhook({
+  // Token configurado no painel do Asaas para o webhook; sem ele a rota recusa tudo
+  token: (process.env.ASAAS_WEBHOOK_TOKEN || '').trim(),
+  db: {
+    getPayment: async (asaasId) => (await supabaseRest(`${paymentPath(asaasId)}&select=user_id,minutes,amount,status`))[0] || null,
+    updatePayment: (asaasId, changes) => supabaseRest(paymentPath(asaasId), { method: 'PATCH', body: JSON.stringify(changes) }),
+    recordLedgerEntry,
+    getLedgerEntry: async (key) =>
+      (await supabaseRest(`credit_ledger?idempotency_key=eq.${encodeURIComponent(key)}&select=amount`))[0] || null,
+    recordDebit,
+    // Registra a entrega no log; devolve se ela já tinha sido processada numa entrega anterior
+    logEvent: async (eventId, body) => {
+      const rows = await supabaseRest('payment_events?on_conflict=event_id', {
+        method: 'POST',
+        headers: { Prefer: 'return=representation,resolution=ignore-duplicates' },
+        body: JSON.stringify({
+          event_id: eventId,
+          event: body.event,
+          payment_id: (body.payment && body.payment.id) || null,
+          payload: body
+        })
+      });
+      if (rows.length) return false;
+
+      const [existing] = await supabaseRest(`${eventPath(eventId)}&select=processed_at`);
+      return Boolean(existing && existing.processed_at);
+    },
+    markEvent: (eventId, changes) => supabaseRest(eventPath(eventId), { method: 'PATCH', body: JSON.stringify(changes) })
+  }
+});
+
+app.post('/api/webhooks/asaas', async (req, res) => {
+  const { status, body } = await asaasWebhook.handle(req.headers['asaas-access-token'], req.body);
+  res.status(status).json(body);
+});
+
+// Leases sem heartbeat (aba fechada, rede caída) são encerradas; o tempo depois do último heartbeat não é cobrado
+setInterval(() => {
+  const now = Date.now();
+  leases.forEach(lease => {
+    if (now - lease.lastHeartbeatAt > LEASE_TIMEOUT_MS) closeLease(lease, 'sem heartbeat');
+  });
+}, LEASE_SWEEP_INTERVAL_MS);
+
 app.listen(PORT, () => {
   console.log(`🚀 Proxy local rodando em http://localhost:${PORT}`);
 });
@@ -0,0 +1,124 @@
+// Webhook do Asaas: confirma, vence e estorna pagamentos sem depender do usuário na tela.
+// Todo evento recebido fica em payment_events (payload incluído) para conciliação.
+// O acesso ao banco é recebido de fora: server.js passa o Supabase, os testes um banco em memória.
+const crypto = require('crypto');
+
+// Status gravado em payments para cada evento tratado; os demais eventos só ficam no log
+const PAYMENT_EVENT_STATUS = {
+  PAYMENT_RECEIVED: 'RECEIVED',
+  PAYMENT_CONFIRMED: 'CONFIRMED',
+  PAYMENT_OVERDUE: 'OVERDUE',
+  PAYMENT_REFUNDED: 'REFUNDED'
+};
+const PAID_STATUSES = ['RECEIVED', 'CONFIRMED'];
+// Diferença aceita entre o valor pago e o cobrado (arredondamento de centavos)
+const AMOUNT_TOLERANCE_BRL = 0.005;
+
+/**
+ * `db` precisa de:
+ *   getPayment(asaasId) -> { user_id, minutes, amount, status } | null
+ *   updatePayment(asaasId, changes)
+ *   recordLedgerEntry(entry) -> false se a idempotency key já existia
+ *   getLedgerEntry(idempotencyKey) -> { amount } | null
+ *   recordDebit(userId, seconds, entry) -> segundos debitados
+ *   logEvent(eventId, body) -> true se a entrega já tinha sido processada
+ *   markEvent(eventId, changes)
+ * `token` é o configurado no painel do Asaas; sem ele o webhook recusa tudo.
+ */
+const createAsaasWebhook = ({ db, token }) => {
+  const isValidToken = (received) => {
+    if (!token || typeof received !== 'string') return false;
+    const expected = Buffer.from(token);
+    const actual = Buffer.from(received);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  };
+
+  /**
+   * Aplica um evento de pagamento e devolve o resultado para o log.
+   * Crédito e estorno passam pela idempotency key do extrato: reentregas do mesmo evento,
+   * ou RECEIVED depois de CONFIRMED, nunca creditam duas vezes.
+   */
+  const applyPaymentEvent = async (event, asaasPayment) => {
+    const status = PAYMENT_EVENT_STATUS[event];
+    const asaasId = asaasPayment && asaasPayment.id;
+    if (!status || !asaasId) return 'ignored';
+
+    const payment = await db.getPayment(asaasId);
+    if (!payment) return 'unknown_payment';
+    // Eventos atrasados não desfazem um estorno
+    if (payment.status === 'REFUNDED') return 'ignored_after_refund';
+
+    if (PAID_STATUSES.includes(status)) {
+      // Os minutos vêm da linha gravada pelo servidor; o valor pago tem de ser o que foi cobrado por eles
+      if (Math.abs(Number(asaasPayment.value) - Number(payment.amount)) > AMOUNT_TOLERANCE_BRL) return 'amount_mismatch';
+
+      const credited = await db.recordLedgerEntry({
+        user_id: payment.user_id,
+        amount: payment.minutes * 60,
+        kind: 'purchase',
+        description: `Compra de ${payment.minutes} min`,
+        payment_id: asaasId,
+        idempotency_key: `payment:${asaasId}`
+      });
+      await db.updatePayment(asaasId, { status, processed: true });
+      return credited ? 'credited' : 'already_credited';
+    }
+
+    if (status === 'REFUNDED') {
+      // Estorna o que ainda resta do que foi creditado; minutos já usados não deixam o saldo negativo
+      const purchase = await db.getLedgerEntry(`payment:${asaasId}`);
+      const refunded = purchase
+        ? await db.recordDebit(payment.user_id, purchase.amount, {
+            kind: 'adjustment',
+            description: 'Estorno de compra',
+            payment_id: asaasId,
+            idempotency_key: `refund:${asaasId}`
+          })
+        : 0;
+      await db.updatePayment(asaasId, { status });
+      return purchase && refunded < purchase.amount ? `refunded ${refunded}s of ${purchase.amount}s` : 'refunded';
+    }
+
+    // OVERDUE: só vale para cobranças que ainda não foram pagas, e devolve a vaga do cupom
+    if (PAID_STATUSES.includes(payment.status)) return 'ignored_already_paid';
+    await db.updatePayment(asaasId, { status, coupon_use: null });
+    return 'status_updated';
+  };
+
+  /**
+   * Trata uma entrega do webhook. Devolve o status HTTP e o corpo da resposta.
+   */
+  const handle = async (accessToken, body) => {
+    if (!isValidToken(accessToken)) {
+      console.warn('[Webhook] Token de acesso inválido');
+      return { status: 401, body: { error: 'Token inválido.' } };
+    }
+
+    body = body || {};
+    if (!body.event) return { status: 400, body: { error: 'Evento ausente.' } };
+    const asaasId = body.payment && body.payment.id;
+    // Eventos antigos do Asaas não trazem id; evento + cobrança identifica a entrega
+    const eventId = body.id || `${body.event}:${asaasId}`;
+
+    try {
+      if (await db.logEvent(eventId, body)) {
+        console.log(`[Webhook] ${eventId} repetido; já processado`);
+        return { status: 200, body: { received: true, duplicate: true } };
+      }
+
+      const result = await applyPaymentEvent(body.event, body.payment);
+      await db.markEvent(eventId, { result, processed_at: new Date().toISOString() });
+      console.log(`[Webhook] ${body.event} ${asaasId || '-'}: ${result}`);
+      return { status: 200, body: { received: true, result } };
+    } catch (error) {
+      console.error(`[Webhook] Erro ao processar ${eventId}:`, error.message);
+      await db.markEvent(eventId, { result: `failed: ${error.message}` }).catch(() => {});
+      // Erro 5xx faz o Asaas reenviar o evento mais tarde
+      return { status: 500, body: { error: 'Erro ao processar o evento.' } };
+    }
+  };
+
+  return { handle };
+};
+
+module.exports = { createAsaasWebhook, PAID_STATUSES };
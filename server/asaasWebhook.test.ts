@@ -0,0 +1,162 @@
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const require = createRequire(import.meta.url);
+const { createAsaasWebhook } = require('./asaasWebhook.cjs');
+
+const TOKEN = 'webhook-token';
+
+const fixture = (name: string) =>
+  JSON.parse(readFileSync(new URL(`../scripts/fixtures/asaas/${name}.json`, import.meta.url), 'utf8'));
+
+interface Payment { user_id: string; minutes: number; amount: number; status: string; processed?: boolean; coupon_use?: number | null }
+
+// In-memory stand-in for the Supabase db of server.js: unique idempotency keys and a balance that never goes negative
+const createDb = (payments: Record<string, Payment>, credits: Record<string, number>) => {
+  const ledger = new Map<string, { user_id: string; amount: number }>();
+  const events = new Map<string, { result?: string; processed_at?: string }>();
+
+  const recordLedgerEntry = async (entry: { user_id: string; amount: number; idempotency_key: string }) => {
+    if (ledger.has(entry.idempotency_key)) return false;
+    ledger.set(entry.idempotency_key, entry);
+    credits[entry.user_id] += entry.amount;
+    return true;
+  };
+
+  return {
+    payments,
+    credits,
+    ledger,
+    events,
+    getPayment: async (asaasId: string) => (payments[asaasId] ? { ...payments[asaasId] } : null),
+    updatePayment: async (asaasId: string, changes: Partial<Payment>) => {
+      Object.assign(payments[asaasId], changes);
+    },
+    recordLedgerEntry,
+    getLedgerEntry: async (key: string) => ledger.get(key) || null,
+    recordDebit: async (userId: string, seconds: number, entry: { idempotency_key: string }) => {
+      const amount = Math.min(seconds, credits[userId]);
+      if (amount <= 0) return 0;
+      return (await recordLedgerEntry({ ...entry, user_id: userId, amount: -amount })) ? amount : 0;
+    },
+    logEvent: async (eventId: string) => {
+      const existing = events.get(eventId);
+      if (!existing) events.set(eventId, {});
+      return Boolean(existing && existing.processed_at);
+    },
+    markEvent: async (eventId: string, changes: { result: string; processed_at?: string }) => {
+      Object.assign(events.get(eventId)!, changes);
+    }
+  };
+};
+
+// The charge of the fixtures: R$ 5.00 for 10 minutes
+const setup = (token: string = TOKEN) => {
+  const db = createDb({ pay_080225913252: { user_id: 'user-1', minutes: 10, amount: 5, status: 'PENDING' } }, { 'user-1': 0 });
+  return { db, webhook: createAsaasWebhook({ db, token }) };
+};
+
+describe('Asaas webhook', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('credits a received payment', async () => {
+    const { db, webhook } = setup();
+
+    const response = await webhook.handle(TOKEN, fixture('payment-received'));
+
+    expect(response).toEqual({ status: 200, body: { received: true, result: 'credited' } });
+    expect(db.credits['user-1']).toBe(600);
+    expect(db.payments.pay_080225913252).toMatchObject({ status: 'RECEIVED', processed: true });
+  });
+
+  it('credits once when the same event is delivered again', async () => {
+    const { db, webhook } = setup();
+    const event = fixture('payment-received');
+
+    await webhook.handle(TOKEN, event);
+    const response = await webhook.handle(TOKEN, event);
+
+    expect(response.body).toEqual({ received: true, duplicate: true });
+    expect(db.credits['user-1']).toBe(600);
+  });
+
+  it('credits once when CONFIRMED follows RECEIVED', async () => {
+    const { db, webhook } = setup();
+
+    await webhook.handle(TOKEN, fixture('payment-received'));
+    const response = await webhook.handle(TOKEN, fixture('payment-confirmed'));
+
+    expect(response.body.result).toBe('already_credited');
+    expect(db.credits['user-1']).toBe(600);
+  });
+
+  it('does not credit a payment it did not create', async () => {
+    const { db, webhook } = setup();
+    const event = fixture('payment-received');
+    event.payment.id = 'pay_unknown';
+
+    const response = await webhook.handle(TOKEN, event);
+
+    expect(response.body.result).toBe('unknown_payment');
+    expect(db.ledger.size).toBe(0);
+  });
+
+  it('does not credit when the paid value differs from the charge', async () => {
+    const { db, webhook } = setup();
+    const event = fixture('payment-received');
+    event.payment.value = 1;
+
+    const response = await webhook.handle(TOKEN, event);
+
+    expect(response.body.result).toBe('amount_mismatch');
+    expect(db.credits['user-1']).toBe(0);
+    expect(db.payments.pay_080225913252.status).toBe('PENDING');
+  });
+
+  it('rejects a wrong or missing token, and everything when no token is configured', async () => {
+    const { db, webhook } = setup();
+
+    expect((await webhook.handle('wrong-token', fixture('payment-received'))).status).toBe(401);
+    expect((await webhook.handle(undefined, fixture('payment-received'))).status).toBe(401);
+    expect((await setup('').webhook.handle('', fixture('payment-received'))).status).toBe(401);
+    expect(db.events.size).toBe(0);
+    expect(db.credits['user-1']).toBe(0);
+  });
+
+  it('takes back what is left of the minutes on a refund after the credit', async () => {
+    const { db, webhook } = setup();
+    await webhook.handle(TOKEN, fixture('payment-received'));
+    db.credits['user-1'] -= 200; // Some of the minutes were already used
+
+    const response = await webhook.handle(TOKEN, fixture('payment-refunded'));
+
+    expect(response.body.result).toBe('refunded 400s of 600s');
+    expect(db.credits['user-1']).toBe(0);
+    expect(db.payments.pay_080225913252.status).toBe('REFUNDED');
+  });
+
+  it('ignores payment events that arrive after the refund', async () => {
+    const { db, webhook } = setup();
+    await webhook.handle(TOKEN, fixture('payment-received'));
+    await webhook.handle(TOKEN, fixture('payment-refunded'));
+
+    const response = await webhook.handle(TOKEN, fixture('payment-confirmed'));
+
+    expect(response.body.result).toBe('ignored_after_refund');
+    expect(db.credits['user-1']).toBe(0);
+  });
+
+  it('marks an unpaid charge overdue, but not a paid one', async () => {
+    const unpaid = setup();
+    expect((await unpaid.webhook.handle(TOKEN, fixture('payment-overdue'))).body.result).toBe('status_updated');
+    expect(unpaid.db.payments.pay_080225913252).toMatchObject({ status: 'OVERDUE', coupon_use: null });
+
+    const paid = setup();
+    await paid.webhook.handle(TOKEN, fixture('payment-received'));
+    expect((await paid.webhook.handle(TOKEN, fixture('payment-overdue'))).body.result).toBe('ignored_already_paid');
+  });
+});
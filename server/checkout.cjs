@@ -0,0 +1,128 @@
+// Compra de créditos: o servidor cota a compra, cria o PIX com o próprio preço e grava a linha de payments.
+// O webhook credita os minutos dessa linha, então nada do que o navegador envia define preço ou minutos.
+const crypto = require('crypto');
+const { findCoupon, parseSelection, validateCoupon, quotePurchase } = require('./pricing.cjs');
+
+// Violação de unique do Postgres: outra cobrança tomou a mesma vaga do cupom
+const UNIQUE_VIOLATION = '23505';
+// Uma reserva que não virou PIX (servidor caiu no meio) libera a vaga do cupom depois disto
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+// Validade assumida quando o Asaas não informa a expiração do PIX
+const DEFAULT_PIX_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Momento em que o PIX expira. O Asaas envia "AAAA-MM-DD HH:mm:ss" (ou só a data) no horário de Brasília.
+ */
+const parseExpiration = (value) => {
+  if (!value) return null;
+  const [date, time = '23:59:59'] = String(value).trim().split(/[ T]/);
+  const brasilia = new Date(`${date}T${time}-03:00`).getTime();
+  if (!Number.isNaN(brasilia)) return brasilia;
+  const other = new Date(value).getTime();
+  return Number.isNaN(other) ? null : other;
+};
+
+// Menor vaga livre: as vagas são numeradas a partir de 1 e o índice único do banco impede duas iguais
+const firstFreeUse = (uses) => {
+  let use = 1;
+  while (uses.includes(use)) use++;
+  return use;
+};
+
+/**
+ * `db` precisa de:
+ *   releaseExpiredCouponUses(userId, couponCode, nowIso) — devolve a vaga de cobranças que expiraram sem pagamento
+ *   getCouponUses(userId, couponCode) -> vagas (coupon_use) ocupadas: compras pagas e cobranças em aberto
+ *   insertPayment(row) — erro com code 23505 se a vaga do cupom já foi tomada
+ *   updatePayment(asaasId, changes)
+ * `createCharge({ name, email, cpf, value })` cria o PIX no Asaas -> { id, encodedImage, payload, expirationDate }.
+ */
+const createCheckout = ({ db, createCharge, now = () => new Date() }) => {
+  // Cota a compra com o cupom, se ele valer para ela. Cupom recusado: cotação sem desconto e o motivo.
+  const quoteFor = async (userId, request) => {
+    const selection = parseSelection(request.selection);
+    if (!selection) return { error: 'Opção de recarga inválida.' };
+    if (!request.couponCode) return { quote: quotePurchase(selection, null) };
+
+    const coupon = findCoupon(request.couponCode);
+    if (!coupon) return { quote: quotePurchase(selection, null), couponError: 'Cupom inválido.' };
+
+    let uses = [];
+    if (coupon.maxUsesPerUser !== undefined) {
+      await db.releaseExpiredCouponUses(userId, coupon.code, now().toISOString());
+      uses = await db.getCouponUses(userId, coupon.code);
+    }
+    const couponError = validateCoupon(coupon, selection, uses.length, now());
+    if (couponError) return { quote: quotePurchase(selection, null), couponError };
+    return { quote: quotePurchase(selection, coupon), couponUse: coupon.maxUsesPerUser !== undefined ? firstFreeUse(uses) : null };
+  };
+
+  /**
+   * Preço e minutos para mostrar no app. Devolve o status HTTP e o corpo da resposta.
+   */
+  const quote = async (userId, request) => {
+    const result = await quoteFor(userId, request || {});
+    if (result.error) return { status: 400, body: { error: result.error } };
+    return { status: 200, body: { quote: result.quote, couponError: result.couponError || null } };
+  };
+
+  /**
+   * Cria o PIX da compra e a linha de payments que o webhook vai creditar. Devolve o status HTTP e o corpo.
+   */
+  const checkout = async (userId, request) => {
+    request = request || {};
+    const cpf = String(request.cpf || '').replace(/\D/g, '');
+    if (cpf.length !== 11 || !request.name || !request.email) {
+      return { status: 400, body: { error: 'Informe nome, e-mail e CPF (11 números).' } };
+    }
+
+    const result = await quoteFor(userId, request);
+    if (result.error) return { status: 400, body: { error: result.error } };
+    // O cupom deixou de valer desde a cotação: o app mostra o motivo em vez de cobrar sem o desconto
+    if (result.couponError) return { status: 422, body: { error: result.couponError } };
+    const { quote: purchase, couponUse } = result;
+
+    // A linha (com a vaga do cupom) é reservada antes do PIX: duas compras simultâneas não levam o mesmo uso
+    const reservationId = `reserva:${crypto.randomUUID()}`;
+    try {
+      await db.insertPayment({
+        user_id: userId,
+        asaas_id: reservationId,
+        amount: purchase.priceBRL,
+        minutes: purchase.minutes,
+        package_id: purchase.packageId || null,
+        coupon_code: purchase.couponCode || null,
+        coupon_use: purchase.couponCode ? couponUse : null,
+        list_price: purchase.listPriceBRL,
+        discount_amount: purchase.discountBRL,
+        bonus_minutes: purchase.bonusMinutes,
+        status: 'CREATING',
+        processed: false,
+        expires_at: new Date(now().getTime() + RESERVATION_TTL_MS).toISOString()
+      });
+    } catch (error) {
+      if (error.code === UNIQUE_VIOLATION) return { status: 409, body: { error: 'Você já usou este cupom.' } };
+      throw error;
+    }
+
+    let charge = null;
+    try {
+      charge = await createCharge({ name: request.name, email: request.email, cpf, value: purchase.priceBRL });
+    } catch (error) {
+      console.error('[Checkout] Erro ao criar o PIX:', error.message);
+    }
+    if (!charge || !charge.id || (!charge.payload && !charge.encodedImage)) {
+      await db.updatePayment(reservationId, { status: 'FAILED', coupon_use: null }).catch(() => {});
+      return { status: 502, body: { error: 'Não foi possível gerar o PIX agora. Tente novamente.' } };
+    }
+
+    const expiresAt = parseExpiration(charge.expirationDate) || now().getTime() + DEFAULT_PIX_TTL_MS;
+    await db.updatePayment(reservationId, { asaas_id: charge.id, status: 'PENDING', expires_at: new Date(expiresAt).toISOString() });
+    console.log(`[Checkout] ${charge.id} para ${userId}: R$ ${purchase.priceBRL.toFixed(2)}, ${purchase.minutes} min`);
+    return { status: 200, body: { ...charge, quote: purchase } };
+  };
+
+  return { quote, checkout };
+};
+
+module.exports = { createCheckout };
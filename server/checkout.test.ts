@@ -0,0 +1,156 @@
+import { createRequire } from 'module';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const require = createRequire(import.meta.url);
+const { createCheckout } = require('./checkout.cjs');
+
+const NOW = new Date('2026-10-01T12:00:00-03:00');
+
+interface PaymentRow {
+  user_id: string;
+  asaas_id: string;
+  amount: number;
+  minutes: number;
+  coupon_code: string | null;
+  coupon_use: number | null;
+  status: string;
+  expires_at?: string;
+}
+
+// In-memory payments table with the unique (user_id, coupon_code, coupon_use) index of the README
+const createDb = () => {
+  const payments: PaymentRow[] = [];
+  return {
+    payments,
+    releaseExpiredCouponUses: async (userId: string, couponCode: string, nowIso: string) => {
+      payments
+        .filter(row => row.user_id === userId && row.coupon_code === couponCode && ['CREATING', 'PENDING'].includes(row.status))
+        .filter(row => row.expires_at! < nowIso)
+        .forEach(row => { row.coupon_use = null; });
+    },
+    getCouponUses: async (userId: string, couponCode: string) =>
+      payments.filter(row => row.user_id === userId && row.coupon_code === couponCode && row.coupon_use !== null).map(row => row.coupon_use),
+    insertPayment: async (row: PaymentRow) => {
+      const taken = row.coupon_use !== null && payments.some(other =>
+        other.user_id === row.user_id && other.coupon_code === row.coupon_code && other.coupon_use === row.coupon_use);
+      if (taken) throw Object.assign(new Error('duplicate key'), { code: '23505' });
+      payments.push({ ...row });
+    },
+    updatePayment: async (asaasId: string, changes: Partial<PaymentRow>) => {
+      Object.assign(payments.find(row => row.asaas_id === asaasId)!, changes);
+    }
+  };
+};
+
+const buyer = { name: 'Ana Souza', email: 'ana@example.com', cpf: '123.456.789-01' };
+
+const setup = () => {
+  const db = createDb();
+  let charges = 0;
+  const createCharge = vi.fn(async () => ({
+    id: `pay_${++charges}`,
+    encodedImage: 'qr',
+    payload: 'pix-code',
+    expirationDate: '2026-10-02 12:00:00'
+  }));
+  return { db, createCharge, checkout: createCheckout({ db, createCharge, now: () => NOW }) };
+};
+
+describe('checkout', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('charges its own quote and records the payment the webhook will credit', async () => {
+    const { db, createCharge, checkout } = setup();
+
+    const response = await checkout.checkout('user-1', { ...buyer, selection: { packageId: 'pro' }, couponCode: 'bemvindo20' });
+
+    expect(response.status).toBe(200);
+    expect(createCharge).toHaveBeenCalledWith({ name: 'Ana Souza', email: 'ana@example.com', cpf: '12345678901', value: 40 });
+    expect(db.payments).toEqual([expect.objectContaining({
+      user_id: 'user-1',
+      asaas_id: 'pay_1',
+      amount: 40,
+      minutes: 196,
+      coupon_code: 'BEMVINDO20',
+      coupon_use: 1,
+      status: 'PENDING',
+      expires_at: '2026-10-02T15:00:00.000Z'
+    })]);
+  });
+
+  it('ignores any price or minutes sent by the app', async () => {
+    const { db, createCharge, checkout } = setup();
+
+    await checkout.checkout('user-1', { ...buyer, selection: { packageId: 'plus' }, value: 1, minutes: 9999 });
+
+    expect(createCharge).toHaveBeenCalledWith(expect.objectContaining({ value: 25 }));
+    expect(db.payments[0]).toMatchObject({ amount: 25, minutes: 93 });
+  });
+
+  it('counts a charge waiting for payment as a use of the coupon', async () => {
+    const { createCharge, checkout } = setup();
+    const purchase = { ...buyer, selection: { packageId: 'plus' }, couponCode: 'BEMVINDO20' };
+    await checkout.checkout('user-1', purchase);
+
+    const response = await checkout.checkout('user-1', purchase);
+
+    expect(response).toEqual({ status: 422, body: { error: 'Você já usou este cupom.' } });
+    expect(createCharge).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets only one of two simultaneous purchases take the coupon', async () => {
+    const { createCharge, checkout } = setup();
+    const purchase = { ...buyer, selection: { packageId: 'plus' }, couponCode: 'BEMVINDO20' };
+
+    const responses = await Promise.all([checkout.checkout('user-1', purchase), checkout.checkout('user-1', purchase)]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+    expect(createCharge).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives the coupon back when the charge expired unpaid or could not be created', async () => {
+    const { db, createCharge, checkout } = setup();
+    const purchase = { ...buyer, selection: { packageId: 'plus' }, couponCode: 'BEMVINDO20' };
+    await checkout.checkout('user-1', purchase);
+    db.payments[0].expires_at = '2026-10-01T14:00:00.000Z';
+
+    createCharge.mockRejectedValueOnce(new Error('Asaas fora do ar'));
+    expect((await checkout.checkout('user-1', purchase)).status).toBe(502);
+    expect(db.payments[1]).toMatchObject({ status: 'FAILED', coupon_use: null });
+
+    expect((await checkout.checkout('user-1', purchase)).status).toBe(200);
+    expect(db.payments.map(row => row.coupon_use)).toEqual([null, null, 1]);
+  });
+
+  it('refuses an invalid purchase before creating any charge', async () => {
+    const { db, createCharge, checkout } = setup();
+
+    expect((await checkout.checkout('user-1', { ...buyer, selection: { packageId: 'free' } })).status).toBe(400);
+    expect((await checkout.checkout('user-1', { ...buyer, cpf: '123', selection: { packageId: 'plus' } })).status).toBe(400);
+    expect(createCharge).not.toHaveBeenCalled();
+    expect(db.payments).toHaveLength(0);
+  });
+});
+
+describe('quote', () => {
+  it('quotes without the discount and says why when the coupon is refused', async () => {
+    const { checkout } = setup();
+
+    const response = await checkout.quote('user-1', { selection: { packageId: 'starter' }, couponCode: 'LANCAMENTO' });
+
+    expect(response.status).toBe(200);
+    expect(response.body.quote).toMatchObject({ priceBRL: 10, discountBRL: 0 });
+    expect(response.body.couponError).toContain('a partir de R$ 25.00');
+  });
+
+  it('refuses an unknown coupon', async () => {
+    const { checkout } = setup();
+
+    const response = await checkout.quote('user-1', { selection: { packageId: 'plus' }, couponCode: 'GRATIS' });
+
+    expect(response.body).toMatchObject({ quote: { priceBRL: 25 }, couponError: 'Cupom inválido.' });
+  });
+});
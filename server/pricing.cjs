@@ -0,0 +1,110 @@
+// Prices of credit purchases: preset packages with bonus minutes, volume bonuses for other amounts and coupon codes.
+// Edit PRICING to change the offer. The server quotes every purchase; the app only gets the public part (no coupons).
+
+const PRICING = {
+  ratePerMinuteBRL: 0.30,
+  minChargeBRL: 5, // Smallest PIX charge accepted; discounts never go below it
+  maxCustomBRL: 500,
+  packages: [
+    { id: 'starter', name: 'Inicial', priceBRL: 10, bonusMinutes: 0 },
+    { id: 'plus', name: 'Plus', priceBRL: 25, bonusMinutes: 10, highlight: 'Mais popular' },
+    { id: 'pro', name: 'Pro', priceBRL: 50, bonusMinutes: 30 },
+    { id: 'intensive', name: 'Intensivo', priceBRL: 100, bonusMinutes: 80, highlight: 'Melhor valor' }
+  ],
+  // Extra minutes for a custom amount of at least `minBRL`
+  volumeBonuses: [
+    { minBRL: 50, bonusPercent: 10 },
+    { minBRL: 100, bonusPercent: 20 }
+  ],
+  // code: upper case, matched case-insensitively. discount: percent of the price, or BRL off.
+  // Optional: validFrom/validUntil (ISO), maxUsesPerUser, minPurchaseBRL, packageIds (only these packages).
+  coupons: [
+    { code: 'BEMVINDO20', discount: { kind: 'percent', value: 20 }, maxUsesPerUser: 1 },
+    { code: 'LANCAMENTO', discount: { kind: 'fixed', value: 10 }, minPurchaseBRL: 25, validUntil: '2026-12-31T23:59:59-03:00', maxUsesPerUser: 1 }
+  ]
+};
+
+const roundCents = (value) => Math.round(value * 100) / 100;
+
+const getPackage = (id, pricing = PRICING) => pricing.packages.find(pkg => pkg.id === id);
+
+const findCoupon = (code, pricing = PRICING) =>
+  typeof code === 'string' ? pricing.coupons.find(coupon => coupon.code === code.trim().toUpperCase()) : undefined;
+
+/**
+ * The purchase the app asked for ({ packageId } or { customBRL }), or null when it is not on offer.
+ */
+const parseSelection = (selection, pricing = PRICING) => {
+  if (!selection) return null;
+  if (typeof selection.packageId === 'string') return getPackage(selection.packageId, pricing) ? { packageId: selection.packageId } : null;
+  const customBRL = Number(selection.customBRL);
+  if (!Number.isFinite(customBRL) || customBRL < pricing.minChargeBRL || customBRL > pricing.maxCustomBRL) return null;
+  return { customBRL: roundCents(customBRL) };
+};
+
+const listPriceOf = (selection, pricing) =>
+  selection.packageId !== undefined ? (getPackage(selection.packageId, pricing) || { priceBRL: 0 }).priceBRL : selection.customBRL;
+
+/**
+ * Why `coupon` can't be used on this purchase (message for the learner), or null when it can.
+ * `usesByUser` is how many purchases the learner holds with it: paid, or charges still waiting for payment.
+ */
+const validateCoupon = (coupon, selection, usesByUser, now = new Date(), pricing = PRICING) => {
+  if (coupon.validFrom && now < new Date(coupon.validFrom)) return 'Este cupom ainda não está valendo.';
+  if (coupon.validUntil && now > new Date(coupon.validUntil)) return 'Este cupom expirou.';
+  if (coupon.maxUsesPerUser !== undefined && usesByUser >= coupon.maxUsesPerUser) return 'Você já usou este cupom.';
+  if (coupon.packageIds && !(selection.packageId !== undefined && coupon.packageIds.includes(selection.packageId))) {
+    return 'Este cupom não vale para esta opção de recarga.';
+  }
+  const listPriceBRL = listPriceOf(selection, pricing);
+  if (coupon.minPurchaseBRL && listPriceBRL < coupon.minPurchaseBRL) {
+    return `Este cupom vale para compras a partir de R$ ${coupon.minPurchaseBRL.toFixed(2)}.`;
+  }
+  if (listPriceBRL <= pricing.minChargeBRL) return 'A recarga mínima não aceita desconto.';
+  return null;
+};
+
+/**
+ * Price and minutes of a purchase. Pass only a coupon that passed validateCoupon.
+ */
+const quotePurchase = (selection, coupon, pricing = PRICING) => {
+  const pkg = selection.packageId !== undefined ? getPackage(selection.packageId, pricing) : undefined;
+  const listPriceBRL = listPriceOf(selection, pricing);
+  // Tolerance for floating-point division (8.7 / 0.3 = 28.999...)
+  const baseMinutes = Math.floor(listPriceBRL / pricing.ratePerMinuteBRL + 1e-9);
+
+  let bonusMinutes = pkg ? pkg.bonusMinutes : 0;
+  if (!pkg) {
+    const bonusPercent = Math.max(0, ...pricing.volumeBonuses.filter(tier => listPriceBRL >= tier.minBRL).map(tier => tier.bonusPercent));
+    bonusMinutes = Math.floor(baseMinutes * bonusPercent / 100);
+  }
+
+  const rawDiscount = !coupon ? 0
+    : coupon.discount.kind === 'percent' ? listPriceBRL * coupon.discount.value / 100
+    : coupon.discount.value;
+  const discountBRL = roundCents(Math.max(0, Math.min(rawDiscount, listPriceBRL - pricing.minChargeBRL)));
+
+  return {
+    packageId: pkg ? pkg.id : undefined,
+    listPriceBRL,
+    discountBRL,
+    priceBRL: roundCents(listPriceBRL - discountBRL),
+    baseMinutes,
+    bonusMinutes,
+    minutes: baseMinutes + bonusMinutes,
+    couponCode: coupon && discountBRL > 0 ? coupon.code : undefined
+  };
+};
+
+/**
+ * What the app shows before a quote: packages with their minutes, the limits of a custom amount. Coupons stay here.
+ */
+const getPublicPricing = (pricing = PRICING) => ({
+  ratePerMinuteBRL: pricing.ratePerMinuteBRL,
+  minChargeBRL: pricing.minChargeBRL,
+  maxCustomBRL: pricing.maxCustomBRL,
+  packages: pricing.packages.map(pkg => ({ ...pkg, minutes: quotePurchase({ packageId: pkg.id }, null, pricing).minutes })),
+  volumeBonuses: pricing.volumeBonuses
+});
+
+module.exports = { PRICING, findCoupon, parseSelection, validateCoupon, quotePurchase, getPublicPricing };
@@ -0,0 +1,74 @@
+import { createRequire } from 'module';
+import { describe, expect, it } from 'vitest';
+
+const require = createRequire(import.meta.url);
+const { PRICING, findCoupon, getPublicPricing, parseSelection, quotePurchase, validateCoupon } = require('./pricing.cjs');
+
+const welcome = findCoupon('bemvindo20');
+const launch = findCoupon('LANCAMENTO');
+const beforeLaunchEnds = new Date('2026-10-01T12:00:00-03:00');
+
+describe('quotePurchase', () => {
+  it('adds the package bonus to the minutes the price buys', () => {
+    expect(quotePurchase({ packageId: 'plus' }, null)).toMatchObject({
+      listPriceBRL: 25,
+      priceBRL: 25,
+      baseMinutes: 83,
+      bonusMinutes: 10,
+      minutes: 93
+    });
+  });
+
+  it('gives the volume bonus to a custom amount', () => {
+    expect(quotePurchase({ customBRL: 20 }, null)).toMatchObject({ baseMinutes: 66, bonusMinutes: 0 });
+    expect(quotePurchase({ customBRL: 60 }, null)).toMatchObject({ baseMinutes: 200, bonusMinutes: 20 });
+    expect(quotePurchase({ customBRL: 150 }, null)).toMatchObject({ baseMinutes: 500, bonusMinutes: 100 });
+  });
+
+  it('takes the coupon off the price, never the minutes', () => {
+    const quote = quotePurchase({ packageId: 'pro' }, welcome);
+
+    expect(quote).toMatchObject({ listPriceBRL: 50, discountBRL: 10, priceBRL: 40, minutes: 196, couponCode: 'BEMVINDO20' });
+    expect(quote.minutes).toBe(quotePurchase({ packageId: 'pro' }, null).minutes);
+  });
+
+  it('never discounts below the minimum charge', () => {
+    expect(quotePurchase({ customBRL: 12 }, launch)).toMatchObject({ discountBRL: 7, priceBRL: PRICING.minChargeBRL });
+  });
+});
+
+describe('validateCoupon', () => {
+  it('accepts a coupon within its rules', () => {
+    expect(validateCoupon(launch, { packageId: 'plus' }, 0, beforeLaunchEnds)).toBeNull();
+  });
+
+  it('refuses an expired coupon, a used one and a purchase below its minimum', () => {
+    expect(validateCoupon(launch, { packageId: 'plus' }, 0, new Date('2027-01-01T00:00:00-03:00'))).toBe('Este cupom expirou.');
+    expect(validateCoupon(welcome, { packageId: 'plus' }, 1, beforeLaunchEnds)).toBe('Você já usou este cupom.');
+    expect(validateCoupon(launch, { packageId: 'starter' }, 0, beforeLaunchEnds)).toContain('a partir de R$ 25.00');
+  });
+
+  it('refuses any discount on the minimum charge', () => {
+    expect(validateCoupon(welcome, { customBRL: PRICING.minChargeBRL }, 0, beforeLaunchEnds)).toBe('A recarga mínima não aceita desconto.');
+  });
+});
+
+describe('parseSelection', () => {
+  it('accepts only packages on offer and amounts within the limits', () => {
+    expect(parseSelection({ packageId: 'pro' })).toEqual({ packageId: 'pro' });
+    expect(parseSelection({ packageId: 'free' })).toBeNull();
+    expect(parseSelection({ customBRL: '20' })).toEqual({ customBRL: 20 });
+    expect(parseSelection({ customBRL: 1 })).toBeNull();
+    expect(parseSelection({ customBRL: PRICING.maxCustomBRL + 5 })).toBeNull();
+    expect(parseSelection(undefined)).toBeNull();
+  });
+});
+
+describe('getPublicPricing', () => {
+  it('lists the packages with their minutes and leaves the coupons out', () => {
+    const pricing = getPublicPricing();
+
+    expect(pricing.coupons).toBeUndefined();
+    expect(pricing.packages.find((pkg: { id: string }) => pkg.id === 'plus')).toMatchObject({ priceBRL: 25, minutes: 93 });
+  });
+});
@@ -0,0 +1,54 @@
+// Gravação da avaliação de uma sessão. O banco soma overall_score aos pontos do perfil quando a sessão passa a
+// 'done' (trigger award_evaluation_points), então o navegador não escreve essas colunas: passa por aqui.
+// A nota fica entre 0 e 100, vale uma vez por sessão e só para sessões com tempo medido no extrato.
+
+const SCORE_COLUMNS = ['overall_score', 'vocabulary_score', 'grammar_score', 'pronunciation_score'];
+// Demais colunas da avaliação, gravadas como vieram
+const DETAIL_COLUMNS = [
+  'pronunciation_estimated', 'pronunciation_issues', 'fluency_rating', 'cefr', 'feedback',
+  'segments', 'score_trend', 'scenario', 'evaluated_by', 'rubric_version'
+];
+const FINAL_STATUSES = ['done', 'failed'];
+
+const clampScore = (value) => Math.min(100, Math.max(0, Math.round(Number(value) || 0)));
+
+/**
+ * `db` precisa de:
+ *   getSession(sessionId) -> { user_id, session_ref, evaluation_status } | null
+ *   getMeteredSeconds(sessionRef) -> segundos debitados pelas leases da sessão
+ *   updateSession(sessionId, changes) -> linhas alteradas; só altera sessões fora de 'done'
+ */
+const createSessionEvaluation = ({ db }) => {
+  /**
+   * Grava a avaliação (ou a falha definitiva) de uma sessão do usuário. Devolve o status HTTP e o corpo da resposta.
+   */
+  const save = async (userId, sessionId, evaluation) => {
+    evaluation = evaluation || {};
+    const status = evaluation.evaluation_status;
+    if (!FINAL_STATUSES.includes(status)) return { status: 400, body: { error: 'Status de avaliação inválido.' } };
+
+    const session = await db.getSession(sessionId);
+    if (!session || session.user_id !== userId) return { status: 404, body: { error: 'Sessão não encontrada.' } };
+    // Outra aba (ou uma tentativa cuja resposta se perdeu) já gravou a avaliação, que prevalece
+    if (session.evaluation_status === 'done') return { status: 200, body: { result: 'already_done' } };
+
+    // Sem tempo cobrado não houve sessão ao vivo, e uma nota enviada para ela não pode render pontos
+    if (status === 'done' && !(session.session_ref && await db.getMeteredSeconds(session.session_ref) > 0)) {
+      return { status: 422, body: { error: 'Sessão sem tempo medido.' } };
+    }
+
+    const changes = { evaluation_status: status };
+    if (status === 'done') {
+      SCORE_COLUMNS.forEach(column => { changes[column] = clampScore(evaluation[column]); });
+      DETAIL_COLUMNS.forEach(column => {
+        if (evaluation[column] !== undefined) changes[column] = evaluation[column];
+      });
+    }
+    const rows = await db.updateSession(sessionId, changes);
+    return { status: 200, body: { result: rows.length ? 'saved' : 'already_done' } };
+  };
+
+  return { save };
+};
+
+module.exports = { createSessionEvaluation };
@@ -0,0 +1,105 @@
+import { createRequire } from 'module';
+import { describe, expect, it } from 'vitest';
+
+const require = createRequire(import.meta.url);
+const { createSessionEvaluation } = require('./sessionEvaluation.cjs');
+
+interface SessionRow {
+  id: string;
+  user_id: string;
+  session_ref: string | null;
+  evaluation_status: string;
+  [column: string]: unknown;
+}
+
+// In-memory sessions table plus the metered seconds of the credit ledger, keyed by session_ref
+const createDb = (sessions: SessionRow[], metered: Record<string, number> = { 'ref-1': 300 }) => ({
+  sessions,
+  getSession: async (id: string) => sessions.find(row => row.id === id) || null,
+  getMeteredSeconds: async (sessionRef: string) => metered[sessionRef] || 0,
+  updateSession: async (id: string, changes: Partial<SessionRow>) => {
+    const row = sessions.find(other => other.id === id && other.evaluation_status !== 'done');
+    if (!row) return [];
+    Object.assign(row, changes);
+    return [{ id }];
+  }
+});
+
+const pendingSession = (changes: Partial<SessionRow> = {}): SessionRow => ({
+  id: 'session-1', user_id: 'user-1', session_ref: 'ref-1', evaluation_status: 'pending', ...changes
+});
+
+const evaluation = {
+  evaluation_status: 'done',
+  overall_score: 72,
+  vocabulary_score: 65,
+  grammar_score: 70,
+  pronunciation_score: 80,
+  feedback: 'Good job!'
+};
+
+describe('sessionEvaluation', () => {
+  it('stores the evaluation of a metered session', async () => {
+    const db = createDb([pendingSession()]);
+
+    const result = await createSessionEvaluation({ db }).save('user-1', 'session-1', evaluation);
+
+    expect(result).toEqual({ status: 200, body: { result: 'saved' } });
+    expect(db.sessions[0]).toMatchObject({ evaluation_status: 'done', overall_score: 72, feedback: 'Good job!' });
+  });
+
+  it('clamps scores to 0-100 and ignores columns outside the evaluation', async () => {
+    const db = createDb([pendingSession()]);
+
+    await createSessionEvaluation({ db }).save('user-1', 'session-1', {
+      ...evaluation, overall_score: 1000000, grammar_score: -5, user_id: 'user-2', duration_seconds: 9999
+    });
+
+    expect(db.sessions[0]).toMatchObject({ overall_score: 100, grammar_score: 0, user_id: 'user-1' });
+    expect(db.sessions[0].duration_seconds).toBeUndefined();
+  });
+
+  it('refuses to score a session without metered time', async () => {
+    const db = createDb([pendingSession({ session_ref: 'ref-2' })]);
+
+    const result = await createSessionEvaluation({ db }).save('user-1', 'session-1', evaluation);
+
+    expect(result.status).toBe(422);
+    expect(db.sessions[0].evaluation_status).toBe('pending');
+  });
+
+  it('keeps the first evaluation of a session that is already done', async () => {
+    const db = createDb([pendingSession({ evaluation_status: 'done', overall_score: 65 })]);
+
+    const result = await createSessionEvaluation({ db }).save('user-1', 'session-1', evaluation);
+
+    expect(result).toEqual({ status: 200, body: { result: 'already_done' } });
+    expect(db.sessions[0].overall_score).toBe(65);
+  });
+
+  it("does not touch another user's session", async () => {
+    const db = createDb([pendingSession({ user_id: 'user-2' })]);
+
+    const result = await createSessionEvaluation({ db }).save('user-1', 'session-1', evaluation);
+
+    expect(result.status).toBe(404);
+    expect(db.sessions[0].evaluation_status).toBe('pending');
+  });
+
+  it('marks a failed evaluation without scores', async () => {
+    const db = createDb([pendingSession({ session_ref: null })]);
+
+    const result = await createSessionEvaluation({ db }).save('user-1', 'session-1', { ...evaluation, evaluation_status: 'failed' });
+
+    expect(result.body.result).toBe('saved');
+    expect(db.sessions[0]).toEqual(pendingSession({ session_ref: null, evaluation_status: 'failed' }));
+  });
+
+  it('rejects any other status', async () => {
+    const db = createDb([pendingSession()]);
+
+    const result = await createSessionEvaluation({ db }).save('user-1', 'session-1', { ...evaluation, evaluation_status: 'pending' });
+
+    expect(result.status).toBe(400);
+  });
+});
@@ -19,13 +19,6 @@ const getApiUrl = () => {
 
 const API_URL = getApiUrl();
 
-export interface CheckoutResponse {
-  id: string;
-  encodedImage: string;
-  payload: string;
-  expirationDate: string;
-}
-
 /**
  * Helper para chamadas à API.
  * CRITICAL: Para evitar o pre-flight OPTIONS (CORS), não podemos enviar headers customizados
@@ -50,65 +43,6 @@ const fetchAsaas = async (targetUrl: string, options: RequestInit) => {
   }
 };
 
-/**
- * Gera a cobrança PIX via POST.
- * Para não disparar o verbo OPTIONS, enviamos os dados via URLSearchParams.
- * O navegador definirá automaticamente o Content-Type como 'application/x-www-form-urlencoded',
- * que é permitido em Simple Requests.
- */
-export const generatePixCheckout = async (userData: { 
-  name: string; 
-  email: string; 
-  cpf: string; 
-  value: number; 
-}): Promise<CheckoutResponse> => {
-  
-  const bodyParams = new URLSearchParams();
-  bodyParams.append('nomeCliente', userData.name);
-  bodyParams.append('cpfCnpj', userData.cpf);
-  bodyParams.append('emailCliente', userData.email);
-  bodyParams.append('valorCreditos', userData.value.toString());
-  bodyParams.append('descricao', "Recarga de Minutos - FluentAI");
-
-  console.log('[Asaas Service] Disparando POST simples (Sem OPTIONS)...');
-
-  const rawData = await fetchAsaas(`${API_URL}/processar-pagamento`, {
-    method: 'POST',
-    // NÃO definimos headers aqui. O navegador cuida disso ao ver o URLSearchParams.
-    body: bodyParams
-  });
-
-  console.log('[Asaas Service] Resposta recebida:', rawData);
-
-  // Mapeamento resiliente para capturar os campos da Vercel
-  const id = rawData.paymentId || rawData.id || (rawData.data && rawData.data.id) || '';
-  
-  const encodedImage = 
-    rawData.encodedImage || 
-    rawData.qrCode || 
-    rawData.encodedImageBase64 || 
-    rawData.image || 
-    (rawData.pix && rawData.pix.encodedImage) || 
-    (rawData.data && rawData.data.encodedImage) ||
-    '';
-
-  const payload = 
-    rawData.payload || 
-    rawData.copyPaste || 
-    rawData.pixCopyPaste || 
-    rawData.pixCode || 
-    (rawData.pix && rawData.pix.payload) || 
-    (rawData.data && rawData.data.payload) ||
-    '';
-
-  return {
-    id,
-    encodedImage,
-    payload,
-    expirationDate: rawData.expirationDate || ''
-  };
-};
-
 /**
  * Consulta o status da cobrança via GET (Também é um Simple Request).
  */
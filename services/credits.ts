@@ -0,0 +1,68 @@
+// Créditos medidos pelo servidor (server.js): a sessão ao vivo abre uma lease, manda heartbeats enquanto
+// a conexão está de pé e o servidor debita o tempo. O navegador só exibe o saldo informado.
+import { supabase } from './supabase';
+
+const CREDITS_API_URL = process.env.CREDITS_API_URL || 'http://localhost:3001/api';
+
+// Precisa ficar bem abaixo do timeout da lease no servidor (30s)
+export const HEARTBEAT_INTERVAL_MS = 10000;
+
+export interface LeaseStatus {
+  leaseId: string | null; // null: a lease foi encerrada pelo servidor (sem saldo ou vencida)
+  credits: number; // Saldo em segundos, como o servidor registrou
+}
+
+/**
+ * POST autenticado com o token do Supabase; null se o servidor não respondeu.
+ */
+const postCreditsApi = async (path: string, body?: object): Promise<{ status: number; data: any } | null> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return null;
+
+    const response = await fetch(`${CREDITS_API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        ...(body && { 'Content-Type': 'application/json' })
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok && response.status !== 402 && response.status !== 410) {
+      console.error('[Credits] Erro HTTP:', response.status, data.error);
+      return null;
+    }
+    return { status: response.status, data };
+  } catch (err) {
+    console.error('[Credits] Erro na chamada fetch:', err);
+    return null;
+  }
+};
+
+/**
+ * Abre a medição de uma sessão. Sem saldo, devolve leaseId null.
+ * `sessionRef` identifica a sessão no extrato (SessionResult.sessionRef), mesmo que ela use várias leases.
+ */
+export const openSessionLease = async (sessionRef: string): Promise<LeaseStatus | null> => {
+  const result = await postCreditsApi('/sessions/lease', { sessionRef });
+  if (!result) return null;
+  return { leaseId: result.status === 402 ? null : result.data.leaseId, credits: result.data.credits ?? 0 };
+};
+
+/**
+ * Informa que a sessão continua conectada; o servidor debita o tempo desde o último heartbeat.
+ */
+export const sendLeaseHeartbeat = async (leaseId: string): Promise<LeaseStatus | null> => {
+  const result = await postCreditsApi(`/sessions/lease/${leaseId}/heartbeat`);
+  if (!result) return null;
+  return { leaseId: result.data.closed ? null : leaseId, credits: result.data.credits ?? 0 };
+};
+
+/**
+ * Encerra a medição (cobrando o último trecho) e devolve o saldo final.
+ */
+export const closeSessionLease = async (leaseId: string): Promise<number | null> => {
+  const result = await postCreditsApi(`/sessions/lease/${leaseId}/close`);
+  return result ? result.data.credits ?? null : null;
+};
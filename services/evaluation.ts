@@ -0,0 +1,197 @@
+// Entry point of the post-session evaluation: picks the configured provider and stamps every result with it
+// and with the rubric version that scored it.
+import { Turn, SessionResult, CefrAssessment, CefrLevel, CEFR_LEVELS, InputMode } from "../types";
+import { formatTranscript, formatOffset, isTooShortToEvaluate } from "../utils/transcript";
+import { splitIntoSegments, getScoreTrend, SCORE_TREND_LABELS } from "../utils/sessionSegments";
+import { tokenize } from "../utils/speakingMetrics";
+import { MAX_CARDS_PER_SESSION } from "../utils/vocabulary";
+import { Evaluator, EvaluationOptions, EvaluationResult, EvaluatedScenario, MAX_MISTAKES, MAX_PRONUNCIATION_ISSUES, buildScenarioOutcome, getScoreWeights } from "./evaluator";
+import { ScoringRubric, getRubric } from "./rubrics";
+import { createGeminiEvaluator } from "./gemini";
+import { createMockEvaluator, MOCK_MODEL } from "./mockEvaluator";
+
+const DEFAULT_MODELS: Record<string, string> = {
+  gemini: 'gemini-3-pro-preview',
+  mock: MOCK_MODEL
+};
+
+// EVALUATION_PROVIDER=mock evaluates offline, without an API key
+export const EVALUATION_CONFIG = {
+  provider: process.env.EVALUATION_PROVIDER === 'mock' ? 'mock' : 'gemini',
+  model: process.env.EVALUATION_MODEL || ''
+};
+
+let evaluator: Evaluator | null = null;
+
+export const getEvaluator = (): Evaluator => {
+  if (!evaluator) {
+    const model = EVALUATION_CONFIG.model || DEFAULT_MODELS[EVALUATION_CONFIG.provider];
+    evaluator = EVALUATION_CONFIG.provider === 'mock' ? createMockEvaluator(model) : createGeminiEvaluator(model);
+  }
+  return evaluator;
+};
+
+const FLUENCY_RATINGS: SessionResult['fluencyRating'][] = ['Beginner', 'Intermediate', 'Advanced', 'Native'];
+
+interface EvaluatedPart {
+  turns: Turn[];
+  result: EvaluationResult;
+  weight: number; // Learner words in the part
+}
+
+const weightedAverage = (values: number[], weights: number[]) => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return Math.round(values.reduce((sum, value, idx) => sum + value * weights[idx], 0) / total);
+};
+
+// Takes items from every part in turn, so the capped list covers the whole session and not just its start
+const interleave = <T>(lists: T[][], key: (item: T) => string, limit: number) => {
+  const picked: T[] = [];
+  const seen = new Set<string>();
+  for (let i = 0; picked.length < limit && lists.some(list => i < list.length); i++) {
+    for (const list of lists) {
+      const item = list[i];
+      if (!item || seen.has(key(item)) || picked.length >= limit) continue;
+      seen.add(key(item));
+      picked.push(item);
+    }
+  }
+  return picked;
+};
+
+const partLabel = (idx: number, count: number, turns: Turn[]) => {
+  const name = idx === 0 ? 'Início' : idx === count - 1 ? 'Final' : `Parte ${idx + 1}`;
+  return `${name} (${formatOffset(turns[0].audioStartOffset)}–${formatOffset(turns[turns.length - 1].audioEndOffset)})`;
+};
+
+const mergeCefr = (parts: EvaluatedPart[]): CefrAssessment | undefined => {
+  const assessed = parts.filter(part => part.result.cefr);
+  if (!assessed.length) return undefined;
+  const weights = assessed.map(part => part.weight);
+  const level = (pick: (cefr: CefrAssessment) => CefrLevel | undefined) =>
+    CEFR_LEVELS[weightedAverage(assessed.map(part => CEFR_LEVELS.indexOf(pick(part.result.cefr!)!)), weights)];
+  const hasPronunciation = assessed.every(part => part.result.cefr!.skills.pronunciation);
+  return {
+    level: level(cefr => cefr.level),
+    skills: {
+      vocabulary: level(cefr => cefr.skills.vocabulary),
+      grammar: level(cefr => cefr.skills.grammar),
+      fluency: level(cefr => cefr.skills.fluency),
+      ...(hasPronunciation && { pronunciation: level(cefr => cefr.skills.pronunciation) })
+    },
+    descriptors: [...new Set(assessed.flatMap(part => part.result.cefr!.descriptors))].slice(0, 4)
+  };
+};
+
+/**
+ * Reduce step: one result for the whole session from the results of its parts, weighted by how much the
+ * learner said in each. Feedback keeps every part's observations, labelled with where they happened.
+ */
+const mergeParts = (turns: Turn[], parts: EvaluatedPart[], rubric: ScoringRubric, inputMode: InputMode, scenario?: EvaluatedScenario | null): EvaluationResult => {
+  const weights = parts.map(part => part.weight);
+  const average = (pick: (result: EvaluationResult) => number) => weightedAverage(parts.map(part => pick(part.result)), weights);
+  const isTextMode = inputMode === 'text';
+  const pronunciationEstimated = parts.every(part => part.result.pronunciationEstimated);
+  const scoreWeights = getScoreWeights(rubric, isTextMode, !!pronunciationEstimated);
+
+  const vocabularyScore = average(r => r.vocabularyScore);
+  const grammarScore = average(r => r.grammarScore);
+  const pronunciationScore = isTextMode ? 0 : average(r => r.pronunciationScore);
+  const segments = parts.map(({ turns: partTurns, result }) => ({
+    startOffset: partTurns[0].audioStartOffset,
+    endOffset: partTurns[partTurns.length - 1].audioEndOffset,
+    overallScore: result.overallScore,
+    vocabularyScore: result.vocabularyScore,
+    grammarScore: result.grammarScore,
+    pronunciationScore: result.pronunciationScore,
+    feedback: result.feedback
+  }));
+  const scoreTrend = getScoreTrend(segments.map(segment => segment.overallScore));
+  const first = segments[0].overallScore;
+  const last = segments[segments.length - 1].overallScore;
+
+  return {
+    overallScore: Math.round(vocabularyScore * scoreWeights.vocabulary + grammarScore * scoreWeights.grammar + pronunciationScore * scoreWeights.pronunciation),
+    vocabularyScore,
+    grammarScore,
+    pronunciationScore,
+    pronunciationEstimated,
+    pronunciationIssues: interleave(parts.map(part => part.result.pronunciationIssues || []), issue => issue.word.toLowerCase(), MAX_PRONUNCIATION_ISSUES),
+    fluencyRating: FLUENCY_RATINGS[weightedAverage(parts.map(part => FLUENCY_RATINGS.indexOf(part.result.fluencyRating)), weights)],
+    cefr: mergeCefr(parts),
+    feedback: [
+      ...(scoreTrend ? [`Ao longo da sessão sua nota ${SCORE_TREND_LABELS[scoreTrend]} (${first} → ${last}).`] : []),
+      ...parts.map((part, idx) => `${partLabel(idx, parts.length, part.turns)}: ${part.result.feedback}`)
+    ].join('\n\n'),
+    segments,
+    scoreTrend,
+    transcript: formatTranscript(turns),
+    turns,
+    scenario: scenario
+      ? buildScenarioOutcome(scenario, scenario.goals.map((_, idx) => parts.some(part => part.result.scenario?.goals[idx]?.reached)))
+      : undefined,
+    mistakes: interleave(parts.map(part => part.result.mistakes || []), mistake => mistake.original.toLowerCase(), MAX_MISTAKES),
+    newVocabulary: interleave(parts.map(part => part.result.newVocabulary || []), item => item.term.toLowerCase(), MAX_CARDS_PER_SESSION),
+    inputMode
+  };
+};
+
+/**
+ * Map step for long sessions: each part is evaluated on its own, with only the audio spoken in it.
+ * Parts where the learner said nothing are left out.
+ */
+const evaluateInParts = async (current: Evaluator, turns: Turn[], segments: Turn[][], options: EvaluationOptions & { inputMode: InputMode; rubric: ScoringRubric }) => {
+  const spoken = segments
+    .map(segment => ({ segment, weight: segment.filter(t => t.speaker === 'user').flatMap(t => tokenize(t.text)).length }))
+    .filter(part => part.weight > 0);
+  if (spoken.length < 2) return current.evaluate(turns, options);
+
+  const parts: EvaluatedPart[] = [];
+  for (const [idx, { segment, weight }] of spoken.entries()) {
+    const start = segment[0].audioStartOffset;
+    const end = idx < spoken.length - 1 ? spoken[idx + 1].segment[0].audioStartOffset : Infinity;
+    const result = await current.evaluate(segment, {
+      ...options,
+      userAudio: options.userAudio?.filter(clip => clip.startOffset >= start && clip.startOffset < end),
+      part: { index: idx + 1, count: spoken.length }
+    });
+    parts.push({ turns: segment, result, weight });
+  }
+  return mergeParts(turns, parts, options.rubric, options.inputMode, options.scenario);
+};
+
+export const evaluateSession = async (turns: Turn[], options: EvaluationOptions = {}): Promise<EvaluationResult> => {
+  const current = getEvaluator();
+  const evaluatedBy = { provider: current.provider, model: current.model };
+  const { inputMode = 'voice', scenario, rubric = getRubric() } = options;
+  const rubricVersion = rubric.version;
+  const transcript = formatTranscript(turns);
+
+  // Too short to evaluate: fixed result, still stamped with the configured provider
+  if (isTooShortToEvaluate(transcript)) {
+    return {
+      overallScore: 10,
+      vocabularyScore: 10,
+      grammarScore: 10,
+      pronunciationScore: inputMode === 'text' ? 0 : 10,
+      pronunciationEstimated: inputMode !== 'text' && !options.userAudio?.length,
+      feedback: "A sessão foi muito curta para avaliar corretamente. Continue praticando!",
+      fluencyRating: 'Beginner',
+      transcript,
+      turns,
+      // Sessão curta demais: nenhuma meta do cenário conta como atingida
+      scenario: scenario ? buildScenarioOutcome(scenario) : undefined,
+      mistakes: [],
+      inputMode,
+      evaluatedBy,
+      rubricVersion
+    };
+  }
+
+  // Sessões longas: avalia cada trecho separadamente e junta os resultados (map-reduce)
+  const segments = splitIntoSegments(turns);
+  const result = segments.length > 1
+    ? await evaluateInParts(current, turns, segments, { ...options, inputMode, rubric })
+    : await current.evaluate(turns, { ...options, inputMode, rubric });
+  return { ...result, evaluatedBy, rubricVersion };
+};
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeSession } from '../test/fixtures';
+import { EvaluationResult } from './evaluator';
+import { runEvaluation } from './evaluationQueue';
+import { evaluateSession } from './evaluation';
+import { getSession, saveSession, updateSessionEvaluation } from './supabase';
+
+vi.mock('./evaluation', () => ({ evaluateSession: vi.fn() }));
+vi.mock('./supabase', () => ({
+  getSession: vi.fn(),
+  saveSession: vi.fn(),
+  updateSessionEvaluation: vi.fn()
+}));
+
+const pending = makeSession({
+  id: 'session-1',
+  evaluationStatus: 'pending',
+  overallScore: 0,
+  vocabularyScore: 0,
+  grammarScore: 0,
+  pronunciationScore: 0,
+  fluencyRating: 'Beginner',
+  transcript: '',
+  turns: []
+});
+
+const evaluation: EvaluationResult = {
+  overallScore: 72,
+  vocabularyScore: 70,
+  grammarScore: 68,
+  pronunciationScore: 80,
+  fluencyRating: 'Intermediate',
+  feedback: 'Bom trabalho.',
+  transcript: ''
+};
+
+describe('runEvaluation', () => {
+  beforeEach(() => {
+    vi.mocked(evaluateSession).mockReset().mockResolvedValue(evaluation);
+    vi.mocked(updateSessionEvaluation).mockReset();
+    vi.mocked(getSession).mockReset();
+    vi.mocked(saveSession).mockReset();
+  });
+
+  it('stores the evaluation of a pending session', async () => {
+    vi.mocked(updateSessionEvaluation).mockResolvedValue('saved');
+
+    const result = await runEvaluation({ userId: 'user-1', session: pending });
+
+    expect(result).toMatchObject({ id: 'session-1', evaluationStatus: 'done', overallScore: 72 });
+    expect(updateSessionEvaluation).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the stored result when the session was already evaluated elsewhere', async () => {
+    const stored = { ...pending, ...evaluation, overallScore: 65, evaluationStatus: 'done' as const };
+    vi.mocked(updateSessionEvaluation).mockResolvedValue('already_done');
+    vi.mocked(getSession).mockResolvedValue(stored);
+
+    const result = await runEvaluation({ userId: 'user-1', session: pending });
+
+    expect(result).toBe(stored);
+    expect(updateSessionEvaluation).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves a session that was never saved before storing its evaluation', async () => {
+    vi.mocked(saveSession).mockResolvedValue('session-2');
+    vi.mocked(updateSessionEvaluation).mockResolvedValue('saved');
+
+    const result = await runEvaluation({ userId: 'user-1', session: { ...pending, id: undefined } });
+
+    expect(result).toMatchObject({ id: 'session-2', evaluationStatus: 'done' });
+    expect(saveSession).toHaveBeenCalledTimes(1);
+    expect(updateSessionEvaluation).toHaveBeenCalledWith('session-2', expect.objectContaining({ evaluationStatus: 'done' }));
+  });
+});
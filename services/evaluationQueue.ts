@@ -0,0 +1,75 @@
+// Post-session evaluation, decoupled from the end of the session: the session is saved as 'pending'
+// right away and evaluated here with retries, so a Gemini hiccup no longer loses or fakes the result.
+import { SessionResult } from "../types";
+import { evaluateSession } from "./evaluation";
+import { toEvaluatedScenario } from "./evaluator";
+import { getSession, saveSession, updateSessionEvaluation } from "./supabase";
+import { UserAudioSegment } from "../utils/userSpeech";
+
+// Wait before each retry; after the last one the session is marked 'failed'
+const RETRY_DELAYS_MS = [5000, 15000, 45000, 120000];
+
+export interface EvaluationJob {
+  userId: string;
+  // Session as saved with evaluationStatus 'pending'
+  session: SessionResult;
+  // Only available right after the session; re-queued sessions are graded from the transcript
+  userAudio?: UserAudioSegment[];
+}
+
+// Sessions being evaluated in this tab, so a re-queue doesn't start a second run
+const activeJobs = new Set<string>();
+
+const jobKey = (session: SessionResult) => session.id || session.date;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Stores the evaluation and returns the session as stored. When another tab (or an earlier attempt whose
+ * response was lost) already stored one, that result stands and is returned instead.
+ */
+const persist = async (session: SessionResult & { id: string }): Promise<SessionResult> => {
+  const write = await updateSessionEvaluation(session.id, session);
+  if (!write) throw new Error("Could not save the evaluation");
+  return write === 'already_done' ? (await getSession(session.id)) || session : session;
+};
+
+/**
+ * Evaluates a pending session and stores the result, retrying with backoff.
+ * Resolves with the evaluated session ('done'), the session marked 'failed' once retries run out,
+ * or null when the same session is already being evaluated.
+ */
+export const runEvaluation = async ({ userId, session, userAudio }: EvaluationJob): Promise<SessionResult | null> => {
+  const key = jobKey(session);
+  if (activeJobs.has(key)) return null;
+  activeJobs.add(key);
+
+  try {
+    for (let attempt = 0; attempt <= RETRY_DELAYS_MS.length; attempt++) {
+      if (attempt > 0) await wait(RETRY_DELAYS_MS[attempt - 1]);
+      try {
+        // Never saved (the save after the call failed): store it as pending first, once, so the
+        // server has a row to write the evaluation to
+        if (!session.id) {
+          const id = await saveSession(userId, session);
+          if (!id) throw new Error("Could not save the session");
+          session = { ...session, id };
+        }
+        const evaluation = await evaluateSession(session.turns || [], {
+          inputMode: session.inputMode,
+          scenario: toEvaluatedScenario(session.scenario),
+          userAudio
+        });
+        return await persist({ ...session, id: session.id, ...evaluation, evaluationStatus: 'done' });
+      } catch (err) {
+        console.warn(`[Evaluation] Tentativa ${attempt + 1} falhou:`, err);
+      }
+    }
+
+    const failed: SessionResult = { ...session, evaluationStatus: 'failed' };
+    if (session.id) await updateSessionEvaluation(session.id, failed);
+    return failed;
+  } finally {
+    activeJobs.delete(key);
+  }
+};
@@ -0,0 +1,55 @@
+// Contract shared by the post-session evaluation providers (see services/evaluation.ts for the selection),
+// plus the scoring rules every provider must follow so results stay comparable.
+import { SessionResult, InputMode, Turn, Scenario, ScenarioOutcome, MistakeCategory } from "../types";
+import { UserAudioSegment } from "../utils/userSpeech";
+import { ScoringRubric, ScoreWeights } from "./rubrics";
+
+export const MISTAKE_CATEGORIES: MistakeCategory[] = ['grammar', 'vocabulary', 'pronunciation', 'word_order'];
+// Keeps the report focused on what matters most
+export const MAX_MISTAKES = 10;
+export const MAX_PRONUNCIATION_ISSUES = 8;
+
+// What the evaluation needs from a scenario; also rebuilt from a saved ScenarioOutcome
+export type EvaluatedScenario = Pick<Scenario, 'id' | 'title' | 'setting' | 'goals'>;
+
+export interface EvaluationOptions {
+  inputMode?: InputMode;
+  scenario?: EvaluatedScenario | null;
+  // Learner speech captured during the session; without it pronunciation can only be estimated
+  userAudio?: UserAudioSegment[];
+  // Defaults to the current rubric (services/rubrics)
+  rubric?: ScoringRubric;
+  // Set when only one part of a long session is being evaluated (1-based)
+  part?: { index: number; count: number };
+}
+
+export type EvaluationResult = Omit<SessionResult, 'durationSeconds' | 'date' | 'avatarName'>;
+
+export interface Evaluator {
+  // Recorded with every result (SessionResult.evaluatedBy)
+  provider: string;
+  model: string;
+  /**
+   * Scores a session with enough transcript to evaluate. Throws on failure; never returns made-up scores.
+   */
+  evaluate(turns: Turn[], options: EvaluationOptions): Promise<EvaluationResult>;
+}
+
+// Uma pronúncia apenas estimada pelo texto pesa menos na nota geral do que a avaliada pelo áudio
+export const getScoreWeights = (rubric: ScoringRubric, isTextMode: boolean, pronunciationEstimated: boolean): ScoreWeights => {
+  if (isTextMode) return rubric.weights.text;
+  if (pronunciationEstimated) return rubric.weights.estimatedPronunciation;
+  return rubric.weights.audio;
+};
+
+export const toEvaluatedScenario = (outcome?: ScenarioOutcome): EvaluatedScenario | null => {
+  if (!outcome) return null;
+  return { id: outcome.id, title: outcome.title, setting: outcome.setting || outcome.title, goals: outcome.goals.map(g => g.goal) };
+};
+
+export const buildScenarioOutcome = (scenario: EvaluatedScenario, reached: boolean[] = []): ScenarioOutcome => ({
+  id: scenario.id,
+  title: scenario.title,
+  setting: scenario.setting,
+  goals: scenario.goals.map((goal, idx) => ({ goal, reached: reached[idx] === true }))
+});
@@ -1,87 +1,289 @@
 
 import { GoogleGenAI, Type } from "@google/genai";
-import { SessionResult } from "../types";
+import { Turn, TurnCorrection, Mistake, PronunciationIssue, CefrAssessment, VocabularyItem, CEFR_LEVELS } from "../types";
+import { Evaluator, EvaluationOptions, EvaluationResult, MISTAKE_CATEGORIES, MAX_MISTAKES, MAX_PRONUNCIATION_ISSUES, getScoreWeights, buildScenarioOutcome } from "./evaluator";
+import { getRubric } from "./rubrics";
+import { isCefrLevel } from "../utils/cefr";
+import { formatTranscript, formatOffset } from "../utils/transcript";
+import { encode, encodeWav } from "../utils/audio";
+import { TARGET_SAMPLE_RATE } from "../utils/micCapture";
+import { UserAudioSegment } from "../utils/userSpeech";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Created on first use: the browser client throws without an API key, which the offline evaluator doesn't need
+let client: GoogleGenAI | null = null;
+const getClient = () => client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-export const evaluateSession = async (transcript: string): Promise<Omit<SessionResult, 'durationSeconds' | 'date' | 'avatarName'>> => {
-  if (!transcript || transcript.trim().length < 10) {
-    return {
-      overallScore: 10,
-      vocabularyScore: 10,
-      grammarScore: 10,
-      pronunciationScore: 10,
-      feedback: "A sessão foi muito curta para avaliar corretamente. Continue praticando!",
-      fluencyRating: 'Beginner',
-      transcript: transcript
-    };
+const parseMistakes = (raw: any, isTextMode: boolean): Mistake[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(m => m?.original && m?.corrected && MISTAKE_CATEGORIES.includes(m.category))
+    .filter(m => !(isTextMode && m.category === 'pronunciation'))
+    .slice(0, MAX_MISTAKES)
+    .map(m => ({ original: m.original, corrected: m.corrected, category: m.category, explanation: m.explanation || "" }));
+};
+
+// Tutor words suggested for the vocabulary deck
+const MAX_NEW_VOCABULARY = 8;
+
+const parseNewVocabulary = (raw: any): VocabularyItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(item => item?.term && item?.meaning)
+    .slice(0, MAX_NEW_VOCABULARY)
+    .map(item => ({ term: item.term, meaning: item.meaning, example: item.example || "", source: 'tutor' }));
+};
+
+// Learner audio attached to the evaluation (keeps the request well under the inline size limit)
+const MAX_ASSESSED_AUDIO_SECONDS = 90;
+// Shorter clips ("yes", "uh-huh") say little about pronunciation
+const MIN_SEGMENT_SECONDS = 0.8;
+
+/**
+ * Picks clips spread over the whole session within the audio budget,
+ * so the grade doesn't depend only on the first minutes.
+ */
+const selectAudioSegments = (segments: UserAudioSegment[]) => {
+  const duration = (segment: UserAudioSegment) => segment.endOffset - segment.startOffset;
+  const usable = segments.filter(segment => duration(segment) >= MIN_SEGMENT_SECONDS);
+  const total = usable.reduce((sum, segment) => sum + duration(segment), 0);
+  const stride = Math.max(1, Math.ceil(total / MAX_ASSESSED_AUDIO_SECONDS));
+
+  const picked: UserAudioSegment[] = [];
+  let seconds = 0;
+  usable.forEach((segment, idx) => {
+    if (idx % stride !== 0 || seconds + duration(segment) > MAX_ASSESSED_AUDIO_SECONDS) return;
+    picked.push(segment);
+    seconds += duration(segment);
+  });
+  return picked;
+};
+
+const toAudioParts = async (segments: UserAudioSegment[]) => {
+  const parts = [];
+  for (const [idx, segment] of segments.entries()) {
+    const wav = encodeWav([segment.samples], TARGET_SAMPLE_RATE);
+    parts.push({ text: `Clip ${idx + 1} [${formatOffset(segment.startOffset)}]:` });
+    parts.push({ inlineData: { mimeType: 'audio/wav', data: encode(new Uint8Array(await wav.arrayBuffer())) } });
   }
+  return parts;
+};
+
+const parsePronunciationIssues = (raw: any): PronunciationIssue[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(issue => issue?.word && issue?.tip)
+    .slice(0, MAX_PRONUNCIATION_ISSUES)
+    .map(issue => ({ word: issue.word, phoneme: issue.phoneme || undefined, heardAs: issue.heardAs || undefined, tip: issue.tip }));
+};
+
+const parseCefr = (raw: any, isTextMode: boolean): CefrAssessment | undefined => {
+  if (!isCefrLevel(raw?.level)) return undefined;
+  const skill = (value: unknown) => isCefrLevel(value) ? value : raw.level;
+  return {
+    level: raw.level,
+    skills: {
+      vocabulary: skill(raw.skills?.vocabulary),
+      grammar: skill(raw.skills?.grammar),
+      fluency: skill(raw.skills?.fluency),
+      ...(!isTextMode && { pronunciation: skill(raw.skills?.pronunciation) })
+    },
+    descriptors: Array.isArray(raw.descriptors) ? raw.descriptors.filter((d: unknown) => typeof d === 'string').slice(0, 4) : []
+  };
+};
+
+
+const evaluateWithGemini = async (model: string, turns: Turn[], { inputMode = 'voice', scenario, userAudio = [], part, rubric = getRubric() }: EvaluationOptions): Promise<EvaluationResult> => {
+  const transcript = formatTranscript(turns);
+  // No modo texto não há fala do aluno: pronúncia não é avaliada e sai do cálculo geral
+  const isTextMode = inputMode === 'text';
+  const audioSegments = isTextMode ? [] : selectAudioSegments(userAudio);
+  const pronunciationEstimated = !isTextMode && audioSegments.length === 0;
+  const weights = getScoreWeights(rubric, isTextMode, pronunciationEstimated);
 
   try {
-    // Fix: Updated model to 'gemini-3-pro-preview' for complex session evaluation/analysis
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview",
-      contents: `Analyze the following English conversation transcript between a user and an AI tutor. 
+    const prompt = `Analyze the following English conversation transcript between a user and an AI tutor. 
       The user is learning English. 
+      Each line starts with its time in the session [mm:ss]; "[interrupted]" marks tutor turns the user cut off.
+      ${part ? `This is part ${part.index} of ${part.count} of a long session: evaluate only this part, and keep the feedback about what happened in it.` : ''}
       
       Provide a comprehensive evaluation returning a JSON object.
       
       Strict Scoring Criteria:
-      1. vocabularyScore (0-100): Evaluate range of words and idiomatic usage.
-      2. grammarScore (0-100): Evaluate syntax accuracy and tense consistency.
-      3. pronunciationScore (0-100): Estimate based on transcript clarity (phonetic errors often appear as nonsense words in speech-to-text).
-      4. overallScore (0-100): Calculate strictly as: (vocabularyScore * 0.3) + (grammarScore * 0.3) + (pronunciationScore * 0.4). Round to nearest integer.
-      5. fluencyRating: "Beginner", "Intermediate", "Advanced", or "Native".
-      6. feedback: A constructive paragraph (max 60 words) highlighting strengths and 1 specific area to improve. Respond in Portuguese.
+      1. vocabularyScore (0-100): ${rubric.criteria.vocabulary}
+      2. grammarScore (0-100): ${rubric.criteria.grammar}
+      ${isTextMode
+        ? `3. pronunciationScore: The user TYPED their messages instead of speaking, so pronunciation cannot be assessed. Return 0 and an empty pronunciationIssues list.`
+        : pronunciationEstimated
+          ? `3. pronunciationScore (0-100): No audio is available. Estimate based on transcript clarity (phonetic errors often appear as nonsense words in speech-to-text). Return an empty pronunciationIssues list.`
+          : `3. pronunciationScore (0-100): Grade ONLY by listening to the attached audio clips of the user's own speech (the clips contain the user only; the transcript may hide errors). Judge individual sounds, word stress and intelligibility, not the accent itself.
+      pronunciationIssues: Up to ${MAX_PRONUNCIATION_ISSUES} words the user mispronounced in the clips. For each: "word", "phoneme" (the problematic sound in IPA, e.g. "/θ/"), "heardAs" (what it sounded like) and "tip" (one short sentence in Portuguese on how to fix it).`}
+      4. fluencyRating: ${rubric.criteria.fluency}
+      5. feedback: A constructive paragraph (max 60 words) highlighting strengths and 1 specific area to improve. Respond in Portuguese.
+      6. mistakes: Up to ${MAX_MISTAKES} of the most relevant mistakes made by the USER (never the tutor). For each: "original" (the user's phrase as transcribed), "corrected" (the natural correct version), "category" (${isTextMode ? '"grammar", "vocabulary" or "word_order"' : '"grammar", "vocabulary", "pronunciation" or "word_order"'}) and "explanation" (one short sentence in Portuguese). Return an empty list if there are none.
+      7. cefr: The CEFR level (A1, A2, B1, B2, C1 or C2) the USER demonstrated in this conversation: "level" (overall), "skills" with a level for vocabulary, grammar, fluency${isTextMode ? '' : ' and pronunciation'}, and "descriptors": 2 to 4 short CEFR can-do statements in Portuguese that justify the overall level based on what the user actually did (e.g. "Consegue descrever experiências passadas com frases simples").
+      8. newVocabulary: Up to ${MAX_NEW_VOCABULARY} useful words or expressions the TUTOR used that are probably new to a learner at this level (skip basic words). For each: "term" (as used), "meaning" (short Portuguese translation) and "example" (the tutor's sentence that used it, shortened if needed).
+      ${scenario ? `9. goalsReached: This was a role-play (${scenario.setting}). For each goal below, in the same order, return true only if the USER clearly accomplished it in English:
+      ${scenario.goals.map((goal, idx) => `${idx + 1}. ${goal}`).join('\n      ')}` : ''}
 
       Transcript:
-      ${transcript}`,
+      ${formatTranscript(turns, { timestamps: true })}`;
+
+    const response = await getClient().models.generateContent({
+      model,
+      contents: audioSegments.length
+        ? [{ role: 'user', parts: [{ text: prompt }, ...await toAudioParts(audioSegments)] }]
+        : prompt,
       config: {
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
           properties: {
-            overallScore: { type: Type.INTEGER },
             vocabularyScore: { type: Type.INTEGER },
             grammarScore: { type: Type.INTEGER },
             pronunciationScore: { type: Type.INTEGER },
             fluencyRating: { type: Type.STRING, enum: ["Beginner", "Intermediate", "Advanced", "Native"] },
-            feedback: { type: Type.STRING }
+            feedback: { type: Type.STRING },
+            mistakes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  original: { type: Type.STRING },
+                  corrected: { type: Type.STRING },
+                  category: { type: Type.STRING, enum: MISTAKE_CATEGORIES },
+                  explanation: { type: Type.STRING }
+                },
+                required: ["original", "corrected", "category", "explanation"]
+              }
+            },
+            pronunciationIssues: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  word: { type: Type.STRING },
+                  phoneme: { type: Type.STRING },
+                  heardAs: { type: Type.STRING },
+                  tip: { type: Type.STRING }
+                },
+                required: ["word", "tip"]
+              }
+            },
+            cefr: {
+              type: Type.OBJECT,
+              properties: {
+                level: { type: Type.STRING, enum: [...CEFR_LEVELS] },
+                skills: {
+                  type: Type.OBJECT,
+                  properties: {
+                    vocabulary: { type: Type.STRING, enum: [...CEFR_LEVELS] },
+                    grammar: { type: Type.STRING, enum: [...CEFR_LEVELS] },
+                    fluency: { type: Type.STRING, enum: [...CEFR_LEVELS] },
+                    pronunciation: { type: Type.STRING, enum: [...CEFR_LEVELS] }
+                  },
+                  required: ["vocabulary", "grammar", "fluency"]
+                },
+                descriptors: { type: Type.ARRAY, items: { type: Type.STRING } }
+              },
+              required: ["level", "skills", "descriptors"]
+            },
+            newVocabulary: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  term: { type: Type.STRING },
+                  meaning: { type: Type.STRING },
+                  example: { type: Type.STRING }
+                },
+                required: ["term", "meaning", "example"]
+              }
+            },
+            goalsReached: { type: Type.ARRAY, items: { type: Type.BOOLEAN } }
           },
-          required: ["overallScore", "vocabularyScore", "grammarScore", "pronunciationScore", "fluencyRating", "feedback"]
+          required: ["vocabularyScore", "grammarScore", "pronunciationScore", "fluencyRating", "feedback", "mistakes", "cefr"]
         }
       }
     });
 
     // Fix: Using the text property (not a method) on GenerateContentResponse
-    const result = JSON.parse(response.text || "{}");
+    if (!response.text) throw new Error("Empty evaluation response");
+    const result = JSON.parse(response.text);
     
     // Ensure fallback values if API fails to strict schema
     const vocab = result.vocabularyScore || 0;
     const grammar = result.grammarScore || 0;
-    const pronunciation = result.pronunciationScore || 0;
-    // Fallback calculation if model returns 0 for overall
-    const calculatedOverall = result.overallScore || Math.round((vocab * 0.3) + (grammar * 0.3) + (pronunciation * 0.4));
+    const pronunciation = isTextMode ? 0 : (result.pronunciationScore || 0);
+    // The overall score always comes from the rubric weights, never from the model's own arithmetic
+    const calculatedOverall = Math.round(
+      (vocab * weights.vocabulary) + (grammar * weights.grammar) + (pronunciation * weights.pronunciation)
+    );
 
     return {
       overallScore: calculatedOverall,
       vocabularyScore: vocab,
       grammarScore: grammar,
       pronunciationScore: pronunciation,
+      pronunciationEstimated,
+      pronunciationIssues: audioSegments.length ? parsePronunciationIssues(result.pronunciationIssues) : [],
       fluencyRating: result.fluencyRating || 'Beginner',
+      cefr: parseCefr(result.cefr, isTextMode),
       feedback: result.feedback || "Bom esforço!",
-      transcript: transcript
+      transcript: transcript,
+      turns,
+      scenario: scenario ? buildScenarioOutcome(scenario, result.goalsReached) : undefined,
+      mistakes: parseMistakes(result.mistakes, isTextMode),
+      newVocabulary: parseNewVocabulary(result.newVocabulary),
+      inputMode
     };
   } catch (error) {
+    // No made-up scores: the evaluation queue retries and marks the session as failed if it keeps failing
     console.error("Evaluation error:", error);
-    return {
-      overallScore: 50,
-      vocabularyScore: 50,
-      grammarScore: 50,
-      pronunciationScore: 50,
-      fluencyRating: 'Beginner',
-      feedback: "Não foi possível gerar um relatório detalhado devido a um problema de conexão, mas bom trabalho na prática!",
-      transcript: transcript
-    };
+    throw error;
+  }
+};
+
+/**
+ * Gemini evaluation: the transcript plus clips of the learner's speech, scored by `model`.
+ */
+export const createGeminiEvaluator = (model: string): Evaluator => ({
+  provider: 'gemini',
+  model,
+  evaluate: (turns, options) => evaluateWithGemini(model, turns, options)
+});
+
+/**
+ * Quick grammar check of a single learner turn, used live during the session.
+ * Returns null when the turn is fine or the check fails: it is only a hint and must never block the lesson.
+ */
+export const checkTurnGrammar = async (text: string): Promise<TurnCorrection | null> => {
+  try {
+    const response = await getClient().models.generateContent({
+      model: "gemini-2.5-flash-lite",
+      contents: `A Brazilian learner said the following sentence in a spoken English conversation (speech-to-text, so ignore punctuation and capitalization).
+      If it has a grammar, vocabulary or word order mistake, return the corrected sentence, changing as little as possible, and a short explanation in Portuguese (max 20 words).
+      If it is acceptable spoken English, return hasMistake: false.
+
+      Sentence: "${text}"`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            hasMistake: { type: Type.BOOLEAN },
+            corrected: { type: Type.STRING },
+            explanation: { type: Type.STRING }
+          },
+          required: ["hasMistake"]
+        }
+      }
+    });
+
+    const result = JSON.parse(response.text || "{}");
+    if (!result.hasMistake || !result.corrected || result.corrected.trim() === text.trim()) return null;
+    return { original: text, corrected: result.corrected, explanation: result.explanation || "" };
+  } catch (error) {
+    console.error("Turn grammar check error:", error);
+    return null;
   }
 };
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { makeTurn as turn } from '../test/fixtures';
+import { createMockEvaluator } from './mockEvaluator';
+
+const turns = [
+  turn('model', 'Hi! What did you do yesterday? Tell me about your restaurant experience.', 0),
+  turn('user', 'Yesterday I did went to a restaurant with my sister.', 6),
+  turn('model', 'Nice! What did you order?', 12),
+  turn('user', 'I ordered pasta, she have a salad and people is very friendly there.', 18)
+];
+
+const evaluator = createMockEvaluator();
+
+describe('mock evaluator', () => {
+  it('gives the same result for the same transcript', async () => {
+    expect(await evaluator.evaluate(turns, {})).toEqual(await evaluator.evaluate(turns, {}));
+  });
+
+  it('finds the common mistakes it has rules for', async () => {
+    const result = await evaluator.evaluate(turns, {});
+
+    expect(result.mistakes).toEqual([
+      expect.objectContaining({ original: 'did went', corrected: 'did go', category: 'grammar' }),
+      expect.objectContaining({ original: 'she have', corrected: 'she has', category: 'grammar' }),
+      expect.objectContaining({ original: 'people is', corrected: 'people are', category: 'grammar' })
+    ]);
+    expect(result.feedback).toContain('"did went" → "did go"');
+  });
+
+  it('keeps every score within 0-100 and the pronunciation estimated', async () => {
+    const result = await evaluator.evaluate(turns, {});
+
+    for (const score of [result.overallScore, result.vocabularyScore, result.grammarScore, result.pronunciationScore]) {
+      expect(score).toBeGreaterThanOrEqual(0);
+      expect(score).toBeLessThanOrEqual(100);
+    }
+    expect(result.pronunciationEstimated).toBe(true);
+  });
+
+  it('does not score pronunciation in text mode', async () => {
+    const result = await evaluator.evaluate(turns, { inputMode: 'text' });
+
+    expect(result.pronunciationScore).toBe(0);
+    expect(result.cefr?.skills.pronunciation).toBeUndefined();
+  });
+
+  it('marks the scenario goals the learner talked about', async () => {
+    const result = await evaluator.evaluate(turns, {
+      scenario: { id: 'restaurant', title: 'Restaurante', setting: 'A restaurant', goals: ['Order some pasta', 'Ask for the bill'] }
+    });
+
+    expect(result.scenario?.goals).toEqual([
+      { goal: 'Order some pasta', reached: true },
+      { goal: 'Ask for the bill', reached: false }
+    ]);
+  });
+});
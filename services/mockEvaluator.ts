@@ -0,0 +1,142 @@
+// Rule-based evaluation that runs with no network: same transcript, same result.
+// Meant for local development and for checking the evaluation flow, not for grading learners.
+import { Turn, Mistake, MistakeCategory, CefrLevel, VocabularyItem, CEFR_LEVELS } from "../types";
+import { Evaluator, EvaluationOptions, EvaluationResult, MAX_MISTAKES, getScoreWeights, buildScenarioOutcome } from "./evaluator";
+import { getRubric } from "./rubrics";
+import { computeSpeakingMetrics, tokenize } from "../utils/speakingMetrics";
+import { formatTranscript } from "../utils/transcript";
+
+export const MOCK_MODEL = 'rules-v1';
+
+interface MistakeRule {
+  pattern: RegExp;
+  correct: (match: RegExpMatchArray) => string;
+  category: MistakeCategory;
+  explanation: string;
+}
+
+const PAST_TO_BASE: Record<string, string> = { went: 'go', had: 'have', saw: 'see', made: 'make', took: 'take', ate: 'eat', did: 'do' };
+
+// Common mistakes of Brazilian learners that a regular expression can catch without false alarms
+const MISTAKE_RULES: MistakeRule[] = [
+  { pattern: /\b(he|she|it) don't\b/i, correct: m => `${m[1]} doesn't`, category: 'grammar', explanation: "Com he/she/it, use doesn't." },
+  { pattern: /\b(he|she|it) have\b/i, correct: m => `${m[1]} has`, category: 'grammar', explanation: 'Com he/she/it, o verbo have vira has.' },
+  { pattern: /\bpeople is\b/i, correct: () => 'people are', category: 'grammar', explanation: 'People é plural: use are.' },
+  { pattern: /\bdid(n't| not)? (went|had|saw|made|took|ate|did)\b/i, correct: m => `did${m[1] || ''} ${PAST_TO_BASE[m[2].toLowerCase()]}`, category: 'grammar', explanation: 'Depois de did, o verbo fica na forma base.' },
+  { pattern: /\bmore (better|worse|bigger|easier|faster)\b/i, correct: m => m[1], category: 'grammar', explanation: 'O comparativo já está na palavra; não use more.' },
+  { pattern: /\bi am agree\b/i, correct: () => 'I agree', category: 'grammar', explanation: 'Agree já é verbo: não use am.' },
+  { pattern: /\bi have (\d+) years\b/i, correct: m => `I am ${m[1]} years old`, category: 'vocabulary', explanation: 'Idade em inglês usa to be: I am ... years old.' },
+  { pattern: /\bdepends of\b/i, correct: () => 'depends on', category: 'vocabulary', explanation: 'Em inglês é depends on.' },
+  { pattern: /\bexplain me\b/i, correct: () => 'explain to me', category: 'grammar', explanation: 'Explain pede to antes da pessoa.' },
+  { pattern: /\bwhat means (\w+)/i, correct: m => `what does ${m[1]} mean`, category: 'word_order', explanation: 'Perguntas com what usam does ... mean.' }
+];
+
+// Words too generic to tell whether a scenario goal came up in the conversation
+const GOAL_STOPWORDS = new Set([
+  'about', 'and', 'answer', 'ask', 'confirm', 'deal', 'describe', 'detail', 'explain', 'for', 'how', 'introduce',
+  'order', 'politely', 'question', 'show', 'talk', 'the', 'this', 'want', 'why', 'with', 'you', 'your', 'yourself'
+]);
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+// Minimum score for A2, B1, B2, C1 and C2
+const CEFR_BANDS = [30, 45, 60, 75, 90];
+const toCefr = (score: number): CefrLevel => CEFR_LEVELS[CEFR_BANDS.filter(limit => score >= limit).length];
+
+const DESCRIPTORS: Record<CefrLevel, string> = {
+  A1: 'Consegue usar palavras e frases isoladas sobre temas do dia a dia',
+  A2: 'Consegue trocar informações simples em frases curtas',
+  B1: 'Consegue manter a conversa sobre temas conhecidos, com alguns erros',
+  B2: 'Consegue argumentar e desenvolver ideias com poucos erros',
+  C1: 'Consegue se expressar com fluência e vocabulário variado',
+  C2: 'Consegue se expressar com precisão em qualquer situação'
+};
+
+const findMistakes = (userTurns: Turn[]): Mistake[] => {
+  const mistakes: Mistake[] = [];
+  for (const turn of userTurns) {
+    for (const rule of MISTAKE_RULES) {
+      const match = turn.text.match(rule.pattern);
+      if (match) mistakes.push({ original: match[0], corrected: rule.correct(match), category: rule.category, explanation: rule.explanation });
+    }
+  }
+  return mistakes;
+};
+
+// Long tutor words the learner never used stand in for "new vocabulary"; offline there is no translation
+const MIN_NEW_WORD_LENGTH = 7;
+const MAX_NEW_WORDS = 5;
+
+const findNewVocabulary = (turns: Turn[], userTokens: Set<string>): VocabularyItem[] => {
+  const found = new Map<string, VocabularyItem>();
+  for (const turn of turns) {
+    if (turn.speaker !== 'model') continue;
+    for (const word of tokenize(turn.text)) {
+      if (word.length < MIN_NEW_WORD_LENGTH || userTokens.has(word) || found.has(word)) continue;
+      found.set(word, { term: word, meaning: '(sem tradução no modo offline)', example: turn.text.trim(), source: 'tutor' });
+    }
+  }
+  return [...found.values()].slice(0, MAX_NEW_WORDS);
+};
+
+const goalsReached = (goals: string[], userTokens: Set<string>) =>
+  goals.map(goal => tokenize(goal)
+    .filter(word => word.length > 3 && !GOAL_STOPWORDS.has(word))
+    .some(word => userTokens.has(word) || userTokens.has(`${word}s`)));
+
+const evaluateWithRules = async (turns: Turn[], { inputMode = 'voice', scenario, rubric = getRubric() }: EvaluationOptions): Promise<EvaluationResult> => {
+  const isTextMode = inputMode === 'text';
+  const userTurns = turns.filter(turn => turn.speaker === 'user');
+  const userTokens = new Set(userTurns.flatMap(turn => tokenize(turn.text)));
+  const metrics = computeSpeakingMetrics(turns);
+  const mistakes = findMistakes(userTurns);
+  const utterances = Math.max(1, userTurns.length);
+
+  // Vocabulary: lexical diversity and utterance length; grammar: mistakes per utterance. Portuguese costs both.
+  const vocabularyScore = clamp(metrics.lexicalDiversity * 60 + Math.min(metrics.averageUtteranceLength, 15) / 15 * 40 - metrics.portugueseWordRatio * 50);
+  const grammarMistakes = mistakes.filter(m => m.category !== 'vocabulary').length;
+  const grammarScore = clamp(90 - (grammarMistakes / utterances) * 40 + Math.min(metrics.averageUtteranceLength, 10) - metrics.portugueseWordRatio * 30);
+  // Without listening, pronunciation can only follow the other two
+  const pronunciationScore = isTextMode ? 0 : Math.round((vocabularyScore + grammarScore) / 2);
+  const weights = getScoreWeights(rubric, isTextMode, true);
+  const overallScore = clamp(vocabularyScore * weights.vocabulary + grammarScore * weights.grammar + pronunciationScore * weights.pronunciation);
+
+  const level = toCefr(overallScore);
+  const strongest = vocabularyScore >= grammarScore ? 'vocabulário' : 'gramática';
+  const weakest = vocabularyScore >= grammarScore ? 'gramática' : 'vocabulário';
+
+  return {
+    overallScore,
+    vocabularyScore,
+    grammarScore,
+    pronunciationScore,
+    pronunciationEstimated: !isTextMode,
+    pronunciationIssues: [],
+    fluencyRating: overallScore >= 90 ? 'Native' : overallScore >= 70 ? 'Advanced' : overallScore >= 40 ? 'Intermediate' : 'Beginner',
+    cefr: {
+      level,
+      skills: {
+        vocabulary: toCefr(vocabularyScore),
+        grammar: toCefr(grammarScore),
+        fluency: level,
+        ...(!isTextMode && { pronunciation: toCefr(pronunciationScore) })
+      },
+      descriptors: [DESCRIPTORS[level], `Usou ${userTokens.size} palavras diferentes na conversa`]
+    },
+    feedback: `Seu ponto forte nesta conversa foi ${strongest}. Para a próxima, foque em ${weakest}` +
+      (mistakes.length ? `: revise "${mistakes[0].original}" → "${mistakes[0].corrected}".` : '.') +
+      (metrics.portugueseWordRatio > 0.1 ? ' Tente usar menos português durante a prática.' : ''),
+    transcript: formatTranscript(turns),
+    turns,
+    scenario: scenario ? buildScenarioOutcome(scenario, goalsReached(scenario.goals, userTokens)) : undefined,
+    mistakes: mistakes.slice(0, MAX_MISTAKES),
+    newVocabulary: findNewVocabulary(turns, userTokens),
+    inputMode
+  };
+};
+
+export const createMockEvaluator = (model = MOCK_MODEL): Evaluator => ({
+  provider: 'mock',
+  model,
+  evaluate: evaluateWithRules
+});
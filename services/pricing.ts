@@ -0,0 +1,103 @@
+// Prices of credit purchases, as quoted by the server (server/pricing.cjs).
+// The app picks a package or an amount and a coupon; the server sets the price and minutes and creates the charge.
+import { supabase } from './supabase';
+
+const CREDITS_API_URL = process.env.CREDITS_API_URL || 'http://localhost:3001/api';
+
+export interface CreditPackage {
+  id: string;
+  name: string;
+  priceBRL: number;
+  bonusMinutes: number; // On top of what the price buys at the base rate
+  minutes: number; // Base + bonus
+  highlight?: string; // Badge shown on the card, e.g. "Mais popular"
+}
+
+// Extra minutes for a custom amount of at least `minBRL`
+export interface VolumeBonus {
+  minBRL: number;
+  bonusPercent: number;
+}
+
+// The offer shown before a quote; coupons are only known to the server
+export interface PricingConfig {
+  ratePerMinuteBRL: number;
+  minChargeBRL: number; // Smallest PIX charge accepted; discounts never go below it
+  maxCustomBRL: number;
+  packages: CreditPackage[];
+  volumeBonuses: VolumeBonus[];
+}
+
+// A package, or any other amount at the base rate
+export type PurchaseSelection = { packageId: string } | { customBRL: number };
+
+export interface PriceQuote {
+  packageId?: string;
+  listPriceBRL: number;
+  discountBRL: number;
+  priceBRL: number; // What the learner pays
+  baseMinutes: number;
+  bonusMinutes: number;
+  minutes: number; // Base + bonus; the discount never reduces the minutes
+  couponCode?: string;
+}
+
+export interface QuoteResult {
+  quote: PriceQuote; // Without the discount when the coupon was refused
+  couponError: string | null; // Why the coupon can't be used on this purchase
+}
+
+export interface CheckoutResponse {
+  id: string;
+  encodedImage: string;
+  payload: string;
+  expirationDate: string;
+  quote: PriceQuote; // What was charged
+}
+
+/**
+ * Chamada ao servidor, autenticada com o token do Supabase quando há sessão.
+ * Devolve o corpo da resposta, ou { error } com a mensagem para o usuário.
+ */
+const callPricingApi = async <T>(path: string, body?: object): Promise<T | { error: string }> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`${CREDITS_API_URL}${path}`, {
+      method: body ? 'POST' : 'GET',
+      headers: {
+        ...(session && { Authorization: `Bearer ${session.access_token}` }),
+        ...(body && { 'Content-Type': 'application/json' })
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      console.error('[Pricing] Erro HTTP:', response.status, data.error);
+      return { error: data.error || 'Erro ao falar com o servidor de pagamentos.' };
+    }
+    return data;
+  } catch (err) {
+    console.error('[Pricing] Erro na chamada fetch:', err);
+    return { error: 'Não foi possível falar com o servidor de pagamentos.' };
+  }
+};
+
+/**
+ * Pacotes e limites da recarga; null se o servidor não respondeu.
+ */
+export const fetchPricing = async (): Promise<PricingConfig | null> => {
+  const result = await callPricingApi<PricingConfig>('/pricing');
+  return 'error' in result ? null : result;
+};
+
+/**
+ * Preço e minutos de uma compra, com o cupom se ele valer para ela.
+ */
+export const requestQuote = (selection: PurchaseSelection, couponCode?: string) =>
+  callPricingApi<QuoteResult>('/payments/quote', { selection, couponCode });
+
+/**
+ * Gera o PIX da compra. O servidor cobra o preço da própria cotação e registra a cobrança em `payments`.
+ */
+export const createCheckout = (purchase: { selection: PurchaseSelection; couponCode?: string; name: string; email: string; cpf: string }) =>
+  callPricingApi<CheckoutResponse>('/payments/checkout', purchase);
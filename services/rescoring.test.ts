@@ -0,0 +1,51 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionResult } from '../types';
+import { makeSession } from '../test/fixtures';
+import { rescoreSessions, sessionsToRescore } from './rescoring';
+import { getRubric } from './rubrics';
+import { evaluateSession } from './evaluation';
+import { saveRubricScores } from './supabase';
+
+vi.mock('./evaluation', () => ({ evaluateSession: vi.fn() }));
+vi.mock('./supabase', () => ({ saveRubricScores: vi.fn() }));
+
+const session = (id: string, changes: Partial<SessionResult> = {}) => makeSession({ id, ...changes });
+
+describe('sessionsToRescore', () => {
+  it('picks evaluated sessions scored under another rubric', () => {
+    const sessions = [
+      session('legacy'),
+      session('current', { rubricVersion: 'v1' }),
+      session('rescored', { rescores: [{ rubricVersion: 'v1', overallScore: 60, vocabularyScore: 60, grammarScore: 60, pronunciationScore: 60, fluencyRating: 'Intermediate', feedback: '' }] }),
+      session('pending', { evaluationStatus: 'pending' }),
+      session('empty', { transcript: '' }),
+      session('', {})
+    ];
+
+    expect(sessionsToRescore(sessions, 'v1').map(s => s.id)).toEqual(['legacy']);
+  });
+});
+
+describe('rescoreSessions', () => {
+  beforeEach(() => {
+    vi.mocked(evaluateSession).mockReset();
+    vi.mocked(saveRubricScores).mockReset().mockResolvedValue(true);
+  });
+
+  it('stores the scores under the new rubric and leaves the failures for the next run', async () => {
+    vi.mocked(evaluateSession)
+      .mockResolvedValueOnce({ overallScore: 64, vocabularyScore: 60, grammarScore: 70, pronunciationScore: 60, fluencyRating: 'Intermediate', feedback: 'Reavaliada', transcript: '' })
+      .mockRejectedValueOnce(new Error('Evaluator down'));
+    const progress = vi.fn();
+
+    const rescored = await rescoreSessions([session('a'), session('b')], getRubric('v1'), progress);
+
+    expect(Object.keys(rescored)).toEqual(['a']);
+    expect(rescored.a).toMatchObject({ rubricVersion: 'v1', overallScore: 64 });
+    expect(saveRubricScores).toHaveBeenCalledWith('a', expect.objectContaining({ rubricVersion: 'v1' }));
+    // The stored transcript is parsed back into turns and evaluated under the new rubric
+    expect(vi.mocked(evaluateSession).mock.calls[0][0]).toHaveLength(2);
+    expect(vi.mocked(evaluateSession).mock.calls[0][1]).toMatchObject({ rubric: getRubric('v1') });
+    expect(progress).toHaveBeenLastCalledWith({ done: 1, failed: 1, total: 2 });
+  });
+});
@@ -0,0 +1,70 @@
+// Batch re-scoring of stored sessions under another rubric version. The original result stays on the session;
+// the new one goes to `session_scores`, so both can be compared. Re-running the job skips what is already done.
+import { SessionResult, RubricScores } from "../types";
+import { evaluateSession } from "./evaluation";
+import { toEvaluatedScenario } from "./evaluator";
+import { ScoringRubric, rubricVersionOf } from "./rubrics";
+import { saveRubricScores } from "./supabase";
+import { parseTranscript } from "../utils/transcript";
+
+export interface RescoreProgress {
+  done: number;
+  failed: number;
+  total: number;
+}
+
+/**
+ * Sessions that can be re-scored under `version` and don't have a result under it yet.
+ */
+export const sessionsToRescore = (sessions: SessionResult[], version: string) =>
+  sessions.filter(session =>
+    session.id &&
+    (!session.evaluationStatus || session.evaluationStatus === 'done') &&
+    rubricVersionOf(session) !== version &&
+    !session.rescores?.some(scores => scores.rubricVersion === version) &&
+    (session.turns?.length || session.transcript)
+  );
+
+/**
+ * Re-scores the sessions one at a time (the learner's audio isn't stored, so pronunciation comes out estimated).
+ * Resolves with the new scores by session id; sessions that fail are left for the next run.
+ */
+export const rescoreSessions = async (
+  sessions: SessionResult[],
+  rubric: ScoringRubric,
+  onProgress?: (progress: RescoreProgress) => void
+): Promise<Record<string, RubricScores>> => {
+  const pending = sessionsToRescore(sessions, rubric.version);
+  const rescored: Record<string, RubricScores> = {};
+  const progress: RescoreProgress = { done: 0, failed: 0, total: pending.length };
+  onProgress?.({ ...progress });
+
+  for (const session of pending) {
+    try {
+      const result = await evaluateSession(session.turns?.length ? session.turns : parseTranscript(session.transcript), {
+        inputMode: session.inputMode,
+        scenario: toEvaluatedScenario(session.scenario),
+        rubric
+      });
+      const scores: RubricScores = {
+        rubricVersion: rubric.version,
+        overallScore: result.overallScore,
+        vocabularyScore: result.vocabularyScore,
+        grammarScore: result.grammarScore,
+        pronunciationScore: result.pronunciationScore,
+        fluencyRating: result.fluencyRating,
+        cefr: result.cefr,
+        feedback: result.feedback,
+        evaluatedBy: result.evaluatedBy
+      };
+      if (!await saveRubricScores(session.id!, scores)) throw new Error("Could not save the re-score");
+      rescored[session.id!] = scores;
+      progress.done++;
+    } catch (err) {
+      console.warn(`[Rescore] Sessão ${session.id} não reavaliada:`, err);
+      progress.failed++;
+    }
+    onProgress?.({ ...progress });
+  }
+  return rescored;
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { SessionResult } from '../types';
+import { makeSession } from '../test/fixtures';
+import { CURRENT_RUBRIC_VERSION, LEGACY_RUBRIC_VERSION, getRubric, rubricVersionOf, scoresUnderRubric } from './rubrics';
+import { getScoreWeights } from './evaluator';
+
+const session = (changes: Partial<SessionResult> = {}) => makeSession({ id: 'session-1', feedback: 'Original', ...changes });
+
+describe('rubrics', () => {
+  it('scores new evaluations with the latest rubric', () => {
+    expect(CURRENT_RUBRIC_VERSION).toBe('v1');
+    expect(getRubric().version).toBe('v1');
+  });
+
+  it('keeps the original weights for sessions saved before rubrics were versioned', () => {
+    expect(rubricVersionOf(session())).toBe(LEGACY_RUBRIC_VERSION);
+    const legacy = getRubric(LEGACY_RUBRIC_VERSION);
+    for (const weights of [getScoreWeights(legacy, true, false), getScoreWeights(legacy, false, true), getScoreWeights(legacy, false, false)]) {
+      expect(weights).toEqual({ vocabulary: 0.3, grammar: 0.3, pronunciation: 0.4 });
+    }
+  });
+
+  it('falls back to the current rubric for an unknown version', () => {
+    expect(getRubric('v99').version).toBe(CURRENT_RUBRIC_VERSION);
+  });
+});
+
+describe('scoresUnderRubric', () => {
+  it('uses the original result under the rubric that scored it', () => {
+    expect(scoresUnderRubric(session(), 'v0')).toMatchObject({ rubricVersion: 'v0', overallScore: 70, feedback: 'Original' });
+  });
+
+  it('uses the re-score under another rubric, or nothing', () => {
+    const rescore = { rubricVersion: 'v1', overallScore: 66, vocabularyScore: 60, grammarScore: 70, pronunciationScore: 68, fluencyRating: 'Intermediate' as const, feedback: 'Nova' };
+    expect(scoresUnderRubric(session({ rescores: [rescore] }), 'v1')).toBe(rescore);
+    expect(scoresUnderRubric(session(), 'v1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+// Versioned scoring rubrics. Scores are only comparable within one version: every session records the version
+// that scored it, and re-scoring under a new version (services/rescoring) keeps the original result.
+// Never edit a published rubric; add a new version instead.
+import { SessionResult, RubricScores } from "../types";
+
+export interface ScoreWeights {
+  vocabulary: number;
+  grammar: number;
+  pronunciation: number;
+}
+
+export interface ScoringRubric {
+  version: string;
+  // Weights of the overall score
+  weights: {
+    text: ScoreWeights; // Typed sessions: no pronunciation
+    estimatedPronunciation: ScoreWeights; // Pronunciation guessed from the transcript
+    audio: ScoreWeights; // Pronunciation graded from the learner's audio
+  };
+  // Instructions given to the evaluator for each score
+  criteria: {
+    vocabulary: string;
+    grammar: string;
+    fluency: string;
+  };
+}
+
+export const RUBRICS: Record<string, ScoringRubric> = {
+  // The original scoring, before rubrics were versioned: one set of weights for every session
+  v0: {
+    version: 'v0',
+    weights: {
+      text: { vocabulary: 0.3, grammar: 0.3, pronunciation: 0.4 },
+      estimatedPronunciation: { vocabulary: 0.3, grammar: 0.3, pronunciation: 0.4 },
+      audio: { vocabulary: 0.3, grammar: 0.3, pronunciation: 0.4 }
+    },
+    criteria: {
+      vocabulary: 'Evaluate range of words and idiomatic usage.',
+      grammar: 'Evaluate syntax accuracy and tense consistency.',
+      fluency: '"Beginner", "Intermediate", "Advanced", or "Native".'
+    }
+  },
+  v1: {
+    version: 'v1',
+    weights: {
+      text: { vocabulary: 0.5, grammar: 0.5, pronunciation: 0 },
+      estimatedPronunciation: { vocabulary: 0.4, grammar: 0.4, pronunciation: 0.2 },
+      audio: { vocabulary: 0.3, grammar: 0.3, pronunciation: 0.4 }
+    },
+    criteria: {
+      vocabulary: 'Evaluate range of words and idiomatic usage.',
+      grammar: 'Evaluate syntax accuracy and tense consistency.',
+      fluency: '"Beginner", "Intermediate", "Advanced", or "Native".'
+    }
+  }
+};
+
+// Sessions saved before rubrics were versioned carry no version; they were scored with v0
+export const LEGACY_RUBRIC_VERSION = 'v0';
+
+// SCORING_RUBRIC_VERSION pins the rubric used for new evaluations; by default the latest one
+export const CURRENT_RUBRIC_VERSION = process.env.SCORING_RUBRIC_VERSION && RUBRICS[process.env.SCORING_RUBRIC_VERSION]
+  ? process.env.SCORING_RUBRIC_VERSION
+  : Object.keys(RUBRICS)[Object.keys(RUBRICS).length - 1];
+
+export const getRubric = (version = CURRENT_RUBRIC_VERSION): ScoringRubric => RUBRICS[version] || RUBRICS[CURRENT_RUBRIC_VERSION];
+
+export const rubricVersionOf = (session: SessionResult) => session.rubricVersion || LEGACY_RUBRIC_VERSION;
+
+/**
+ * The session's scores under `version`: its own result when it was scored with that rubric, otherwise a re-score.
+ */
+export const scoresUnderRubric = (session: SessionResult, version: string): RubricScores | undefined => {
+  if (rubricVersionOf(session) === version) {
+    return {
+      rubricVersion: version,
+      overallScore: session.overallScore,
+      vocabularyScore: session.vocabularyScore,
+      grammarScore: session.grammarScore,
+      pronunciationScore: session.pronunciationScore,
+      fluencyRating: session.fluencyRating,
+      cefr: session.cefr,
+      feedback: session.feedback,
+      evaluatedBy: session.evaluatedBy
+    };
+  }
+  return session.rescores?.find(scores => scores.rubricVersion === version);
+};
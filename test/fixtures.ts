@@ -0,0 +1,39 @@
+// Builders for the test data shared by the test files; each test overrides only what it checks.
+import { SessionResult, Turn } from '../types';
+
+/**
+ * An evaluated five-minute session with a short learner/tutor exchange.
+ */
+export const makeSession = (changes: Partial<SessionResult> = {}): SessionResult => ({
+  overallScore: 70,
+  vocabularyScore: 60,
+  grammarScore: 70,
+  pronunciationScore: 78,
+  fluencyRating: 'Intermediate',
+  feedback: '',
+  durationSeconds: 300,
+  transcript: 'User: I went to the beach last weekend.\nAvatar: Nice! Who did you go with?',
+  date: '2026-10-01T12:00:00.000Z',
+  avatarName: 'Léo',
+  ...changes
+});
+
+/**
+ * A completed turn between two offsets (seconds) of the session audio; five seconds long by default.
+ */
+export const makeTurn = (
+  speaker: Turn['speaker'],
+  text: string,
+  audioStartOffset: number,
+  audioEndOffset = audioStartOffset + 5,
+  changes: Partial<Turn> = {}
+): Turn => ({
+  speaker,
+  text,
+  startedAt: audioStartOffset * 1000,
+  endedAt: audioEndOffset * 1000,
+  interrupted: false,
+  audioStartOffset,
+  audioEndOffset,
+  ...changes
+});
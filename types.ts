@@ -1,3 +1,29 @@
+export type MicMode = 'vad' | 'push-to-talk';
+
+// Per-user settings, stored in the `preferences` JSON column of profiles
+export interface UserPreferences {
+  micMode?: MicMode;
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+  speechRate?: number; // Tutor playback speed, 1 = native
+  liveCorrections?: boolean; // Per-turn grammar check during the session (on by default)
+}
+
+export const CEFR_LEVELS = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'] as const;
+export type CefrLevel = typeof CEFR_LEVELS[number];
+
+export interface CefrAssessment {
+  level: CefrLevel; // Overall level shown in this session
+  skills: {
+    vocabulary: CefrLevel;
+    grammar: CefrLevel;
+    fluency: CefrLevel;
+    pronunciation?: CefrLevel; // Not assessed in text mode
+  };
+  descriptors: string[]; // Can-do statements (Portuguese) that justify the level
+}
+
 export interface User {
   id?: string; // Supabase UID
   username: string;
@@ -10,25 +36,192 @@ export interface User {
   sessionsCompleted: number;
   joinedDate: string;
   credits: number; // Stored in seconds
+  cefrLevel?: CefrLevel; // Current estimate; only moves when recent sessions agree (see utils/cefr)
+  preferences?: UserPreferences;
 }
 
+export type InputMode = 'voice' | 'text';
+
+// 'pending' sessions are saved right away and scored later by services/evaluationQueue
+export type EvaluationStatus = 'pending' | 'done' | 'failed';
+
 export interface SessionResult {
+  id?: string; // Row id in `sessions`, once saved
+  evaluationStatus?: EvaluationStatus; // Missing on sessions saved before the queue existed (all 'done')
+  evaluatedBy?: { provider: string; model: string }; // Which evaluator produced the scores
+  rubricVersion?: string; // Scoring rubric of the scores below (services/rubrics); missing means 'v0'
+  rescores?: RubricScores[]; // Same session scored again under other rubrics; stored in `session_scores`
   overallScore: number;
   vocabularyScore: number;
   grammarScore: number;
-  pronunciationScore: number; // Estimated from transcript clarity
+  pronunciationScore: number; // Graded from the learner's audio unless pronunciationEstimated
+  pronunciationEstimated?: boolean; // No audio was available: score guessed from the transcript
+  pronunciationIssues?: PronunciationIssue[];
   fluencyRating: 'Beginner' | 'Intermediate' | 'Advanced' | 'Native';
+  cefr?: CefrAssessment; // Missing on sessions evaluated before CEFR levels existed
   feedback: string;
+  segments?: SegmentEvaluation[]; // Long sessions only: each part scored on its own
+  scoreTrend?: ScoreTrend; // How the score moved from the first to the last segment
   durationSeconds: number;
-  transcript: string;
+  transcript: string; // Plain-text rendering of `turns`; the only record for older sessions
+  turns?: Turn[]; // Stored in the `turns` JSON column of sessions
+  scenario?: ScenarioOutcome; // Role-play sessions only; stored in the `scenario` JSON column
+  mistakes?: Mistake[]; // Stored in the `session_mistakes` table
+  newVocabulary?: VocabularyItem[]; // Words the tutor introduced; moved to the vocabulary deck, not stored on the session
+  metrics?: SpeakingMetrics; // Computed locally, stored in the `metrics` JSON column
   date: string;
   avatarName: string;
+  recordingPath?: string; // Supabase Storage path of the opt-in session audio
+  inputMode?: InputMode; // 'text' when the learner typed instead of speaking
+  sessionRef?: string; // Reference of the session's debits in the credit ledger
+}
+
+export type CreditEntryKind = 'purchase' | 'session' | 'bonus' | 'adjustment';
+
+// One immutable entry of the credit ledger (table credit_ledger); the balance is the sum of the entries
+export interface CreditLedgerEntry {
+  id: string;
+  amount: number; // Seconds, signed: positive adds credits, negative debits them
+  kind: CreditEntryKind;
+  description?: string;
+  paymentId?: string; // Asaas id of the payment behind a purchase
+  sessionRef?: string; // Session behind a debit (SessionResult.sessionRef)
+  createdAt: string;
+}
+
+// What the learner's history says about them (utils/learnerModel), newest sessions first
+export interface LearnerModel {
+  level?: CefrLevel;
+  sessionsConsidered: number; // Evaluated sessions the model is based on
+  recentScore: number | null; // Average overall score of those sessions
+  weakestSkill?: 'vocabulary' | 'grammar' | 'pronunciation';
+  frequentMistakes: { category: MistakeCategory; count: number }[]; // Most frequent first
+  recentMistakes: Mistake[]; // Concrete examples for the tutor to work on
+}
+
+// How the tutor adapts to the learner; fed into the live system instruction
+export interface DifficultyParameters {
+  vocabularyRange: string;
+  maxSentenceWords: number;
+  pace: 'slow' | 'moderate' | 'natural';
+  portugueseScaffolding: 'frequent' | 'occasional' | 'rare' | 'none'; // Only for avatars that understand Portuguese
+  focusPoints: string[]; // Weak points to steer the conversation towards, in English
+}
+
+// Result of a session under one scoring rubric, kept next to the original when a session is re-scored
+export interface RubricScores {
+  rubricVersion: string;
+  overallScore: number;
+  vocabularyScore: number;
+  grammarScore: number;
+  pronunciationScore: number;
+  fluencyRating: SessionResult['fluencyRating'];
+  cefr?: CefrAssessment;
+  feedback: string;
+  evaluatedBy?: { provider: string; model: string };
+}
+
+// Scores of one part of a long session (see utils/sessionSegments)
+export interface SegmentEvaluation {
+  startOffset: number; // Seconds, same clock as Turn offsets
+  endOffset: number;
+  overallScore: number;
+  vocabularyScore: number;
+  grammarScore: number;
+  pronunciationScore: number;
+  feedback: string;
 }
 
-export interface ChatMessage {
-  role: 'user' | 'model';
+export type ScoreTrend = 'improved' | 'declined' | 'steady';
+
+// One turn of the conversation, as it happened live
+export interface Turn {
+  speaker: 'user' | 'model';
   text: string;
-  timestamp: number;
+  startedAt: number; // Epoch ms
+  endedAt: number; // Epoch ms
+  interrupted: boolean; // Tutor turn cut off by the learner
+  // Seconds from the start of the session audio (and of its recording, when there is one)
+  audioStartOffset: number;
+  audioEndOffset: number;
+}
+
+// Guided role-play: the tutor plays a part and steers the learner towards the goals
+export interface Scenario {
+  id: string;
+  title: string; // Portuguese, for UI
+  description: string; // Portuguese, for UI
+  setting: string;
+  tutorRole: string;
+  goals: string[]; // Communicative goals, in English (shown to the learner as-is)
+}
+
+export interface ScenarioOutcome {
+  id: string;
+  title: string;
+  setting: string; // Kept so a pending session can be evaluated after a reload
+  goals: { goal: string; reached: boolean }[];
+}
+
+// Deterministic numbers computed from the turn log (utils/speakingMetrics)
+export interface SpeakingMetrics {
+  userSpeakingSeconds: number;
+  tutorSpeakingSeconds: number;
+  userSpeakingShare: number; // 0-1, learner share of the total speaking time
+  wordsPerMinute: number | null; // null when the learner typed
+  userWordCount: number;
+  typeTokenRatio: number; // 0-1, unique words / words
+  lexicalDiversity: number; // 0-1, moving-average TTR (comparable across session lengths)
+  averageUtteranceLength: number; // Words per learner turn
+  fillerCounts: Record<string, number>;
+  portugueseWordRatio: number; // 0-1
+}
+
+export type MistakeCategory = 'grammar' | 'vocabulary' | 'pronunciation' | 'word_order';
+
+// One concrete error found in the post-session evaluation
+export interface Mistake {
+  original: string;
+  corrected: string;
+  category: MistakeCategory;
+  explanation: string; // Portuguese
+}
+
+// 'tutor': a word the tutor introduced; 'correction': words the learner misused, with the right ones to recall
+export type VocabularySource = 'tutor' | 'correction';
+
+export interface VocabularyItem {
+  term: string; // English
+  meaning: string; // Portuguese translation; for corrections, why the learner's words were wrong
+  example: string; // English sentence using the term
+  source: VocabularySource;
+  mistaken?: string; // Corrections only: what the learner said instead of the term
+}
+
+// One flashcard of the learner's deck (`vocabulary_cards` table), scheduled with SM-2 (utils/spacedRepetition)
+export interface VocabularyCard extends VocabularyItem {
+  id: string;
+  sessionId?: string;
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number; // Consecutive successful reviews
+  dueDate: string; // Local date, YYYY-MM-DD
+  lastReviewedAt?: string;
+}
+
+// Heard in the learner's audio during the pronunciation assessment
+export interface PronunciationIssue {
+  word: string;
+  phoneme?: string; // e.g. "/θ/"
+  heardAs?: string; // What it sounded like
+  tip: string; // Portuguese
+}
+
+// Suggested fix for one learner turn, shown live under the message
+export interface TurnCorrection {
+  original: string;
+  corrected: string;
+  explanation: string; // Short, in Portuguese
 }
 
 export enum AvatarVoice {
@@ -44,6 +237,7 @@ export interface AvatarConfig {
   accent: 'American' | 'British';
   voice: AvatarVoice;
   systemInstruction: string;
+  understandsPortuguese?: boolean; // May use Portuguese scaffolding (see DifficultyParameters)
   description: string; // Portuguese description for UI
   color: string;
   avatarImage: string;
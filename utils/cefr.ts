@@ -0,0 +1,32 @@
+// Current CEFR estimate of a learner, derived from the levels shown in their sessions.
+import { CEFR_LEVELS, CefrLevel, SessionResult } from '../types';
+
+// A level change needs this many consecutive sessions all above (or all below) the current level
+export const CONSISTENT_SESSIONS = 3;
+
+const levelIndex = (level: CefrLevel) => CEFR_LEVELS.indexOf(level);
+
+export const isCefrLevel = (value: unknown): value is CefrLevel =>
+  typeof value === 'string' && (CEFR_LEVELS as readonly string[]).includes(value);
+
+/**
+ * Returns the learner's level after their latest sessions (`history` newest first).
+ * Without a current level the first assessed session sets it. After that, the level only moves when the
+ * last CONSISTENT_SESSIONS sessions all sit on the same side of it, and only as far as the closest of them,
+ * so a single very good or very bad session never changes it.
+ */
+export const estimateProfileLevel = (current: CefrLevel | undefined, history: SessionResult[]): CefrLevel | undefined => {
+  const recent = history
+    .map(session => session.cefr?.level)
+    .filter(isCefrLevel)
+    .slice(0, CONSISTENT_SESSIONS);
+
+  if (!current) return recent[0];
+  if (recent.length < CONSISTENT_SESSIONS) return current;
+
+  const indexes = recent.map(levelIndex);
+  const currentIndex = levelIndex(current);
+  if (indexes.every(i => i > currentIndex)) return CEFR_LEVELS[Math.min(...indexes)];
+  if (indexes.every(i => i < currentIndex)) return CEFR_LEVELS[Math.max(...indexes)];
+  return current;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { Mistake, SessionResult } from '../types';
+import { makeSession } from '../test/fixtures';
+import { buildLearnerModel, getDifficultyParameters } from './learnerModel';
+
+const session = (scores: { overall: number; vocabulary?: number; grammar?: number; pronunciation?: number }, changes: Partial<SessionResult> = {}) =>
+  makeSession({
+    overallScore: scores.overall,
+    vocabularyScore: scores.vocabulary ?? scores.overall,
+    grammarScore: scores.grammar ?? scores.overall,
+    pronunciationScore: scores.pronunciation ?? scores.overall,
+    evaluationStatus: 'done',
+    ...changes
+  });
+
+// What evaluateSession returns for a session with (almost) nothing said
+const tooShort = () => session({ overall: 10 }, { transcript: 'User: hi', pronunciationEstimated: true });
+
+const mistake = (original: string, category: Mistake['category'] = 'grammar'): Mistake => ({
+  original,
+  corrected: `${original} (fixed)`,
+  category,
+  explanation: ''
+});
+
+describe('buildLearnerModel', () => {
+  it('averages the recent evaluated sessions', () => {
+    const model = buildLearnerModel('B1', [
+      session({ overall: 80, vocabulary: 70, grammar: 90, pronunciation: 80 }),
+      session({ overall: 60, vocabulary: 50, grammar: 70, pronunciation: 60 })
+    ]);
+
+    expect(model).toMatchObject({ level: 'B1', sessionsConsidered: 2, recentScore: 70 });
+  });
+
+  it('leaves out pending, failed and too-short sessions', () => {
+    const model = buildLearnerModel('B1', [
+      session({ overall: 0 }, { evaluationStatus: 'pending' }),
+      session({ overall: 0 }, { evaluationStatus: 'failed' }),
+      tooShort(),
+      tooShort(),
+      session({ overall: 72 })
+    ]);
+
+    expect(model.sessionsConsidered).toBe(1);
+    expect(model.recentScore).toBe(72);
+  });
+
+  it('only looks at the last ten sessions', () => {
+    const history = [...Array.from({ length: 10 }, () => session({ overall: 80 })), session({ overall: 20 })];
+    expect(buildLearnerModel(undefined, history).recentScore).toBe(80);
+  });
+
+  it('takes the level from the latest assessed session when the profile has none', () => {
+    const model = buildLearnerModel(undefined, [
+      session({ overall: 70 }),
+      session({ overall: 70 }, { cefr: { level: 'A2', skills: { vocabulary: 'A2', grammar: 'A2', fluency: 'A2' }, descriptors: [] } })
+    ]);
+    expect(model.level).toBe('A2');
+  });
+
+  it('singles out a skill well below the others, ignoring estimated pronunciation', () => {
+    expect(buildLearnerModel('B1', [session({ overall: 70, vocabulary: 80, grammar: 60, pronunciation: 82 })]).weakestSkill).toBe('grammar');
+    expect(buildLearnerModel('B1', [session({ overall: 70, vocabulary: 80, grammar: 75, pronunciation: 78 })]).weakestSkill).toBeUndefined();
+    expect(buildLearnerModel('B1', [
+      session({ overall: 70, vocabulary: 80, grammar: 80, pronunciation: 30 }, { pronunciationEstimated: true })
+    ]).weakestSkill).toBeUndefined();
+  });
+
+  it('counts mistakes by category and keeps distinct examples', () => {
+    const model = buildLearnerModel('B1', [
+      session({ overall: 70 }, { mistakes: [mistake('he go'), mistake('depends of', 'vocabulary')] }),
+      session({ overall: 70 }, { mistakes: [mistake('He go'), mistake('she have')] })
+    ]);
+
+    expect(model.frequentMistakes).toEqual([{ category: 'grammar', count: 3 }, { category: 'vocabulary', count: 1 }]);
+    expect(model.recentMistakes.map(m => m.original)).toEqual(['he go', 'depends of', 'she have']);
+  });
+});
+
+describe('getDifficultyParameters', () => {
+  it('has nothing to adapt to for a new learner', () => {
+    expect(getDifficultyParameters(buildLearnerModel(undefined, []))).toBeNull();
+    expect(getDifficultyParameters(buildLearnerModel(undefined, [tooShort()]))).toBeNull();
+  });
+
+  it('follows the CEFR level, one band up or down with the recent scores', () => {
+    const steady = getDifficultyParameters(buildLearnerModel('B1', [session({ overall: 70 })]))!;
+    const stretched = getDifficultyParameters(buildLearnerModel('B1', [session({ overall: 90 })]))!;
+    const struggling = getDifficultyParameters(buildLearnerModel('B1', [session({ overall: 40 })]))!;
+
+    expect(steady.maxSentenceWords).toBe(14);
+    expect(stretched.maxSentenceWords).toBe(20);
+    expect(struggling.maxSentenceWords).toBe(10);
+    expect(getDifficultyParameters(buildLearnerModel('A1', [session({ overall: 30 })]))!.pace).toBe('slow');
+  });
+
+  it('turns the weak points into focus points', () => {
+    const parameters = getDifficultyParameters(buildLearnerModel('B1', [
+      session({ overall: 70, vocabulary: 80, grammar: 55, pronunciation: 80 }, { mistakes: [mistake('he go'), mistake('she have'), mistake('it work')] })
+    ]))!;
+
+    expect(parameters.focusPoints).toEqual([
+      "the learner's grammar, their weakest skill",
+      'grammar (verb tenses and agreement)',
+      'recent mistake: saying "he go" instead of "he go (fixed)"',
+      'recent mistake: saying "she have" instead of "she have (fixed)"',
+      'recent mistake: saying "it work" instead of "it work (fixed)"'
+    ]);
+  });
+});
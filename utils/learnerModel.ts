@@ -0,0 +1,105 @@
+// Learner model built from the session history, and the tutor difficulty derived from it.
+import { CEFR_LEVELS, CefrLevel, DifficultyParameters, LearnerModel, Mistake, MistakeCategory, SessionResult } from '../types';
+import { isCefrLevel } from './cefr';
+import { isTooShortToEvaluate } from './transcript';
+
+// Only the latest sessions describe the learner as they are now
+const RECENT_SESSIONS = 10;
+// A category needs this many mistakes in the recent sessions to become a focus point
+const MIN_FREQUENT_MISTAKES = 3;
+const MAX_MISTAKE_EXAMPLES = 3;
+// A skill this far below the average of the others is singled out
+const WEAK_SKILL_GAP = 10;
+// Recent scores this high (or low) move the difficulty one band up (or down) from the CEFR level
+const STRETCH_SCORE = 85;
+const STRUGGLE_SCORE = 50;
+
+const MISTAKE_FOCUS: Record<MistakeCategory, string> = {
+  grammar: 'grammar (verb tenses and agreement)',
+  vocabulary: 'word choice',
+  pronunciation: 'pronunciation of difficult words',
+  word_order: 'word order in questions and sentences'
+};
+
+// One band per CEFR level, A1 to C2
+const DIFFICULTY_BANDS: Omit<DifficultyParameters, 'focusPoints'>[] = [
+  { vocabularyRange: 'only the ~500 most common English words', maxSentenceWords: 8, pace: 'slow', portugueseScaffolding: 'frequent' },
+  { vocabularyRange: 'the ~1,000 most common English words', maxSentenceWords: 10, pace: 'slow', portugueseScaffolding: 'occasional' },
+  { vocabularyRange: 'everyday vocabulary (~2,000 words), explaining any less common word in simple English', maxSentenceWords: 14, pace: 'moderate', portugueseScaffolding: 'rare' },
+  { vocabularyRange: 'varied vocabulary, including common idioms and phrasal verbs', maxSentenceWords: 20, pace: 'natural', portugueseScaffolding: 'none' },
+  { vocabularyRange: 'rich and idiomatic vocabulary', maxSentenceWords: 25, pace: 'natural', portugueseScaffolding: 'none' },
+  { vocabularyRange: 'the full range of English, including nuance and rare idioms', maxSentenceWords: 30, pace: 'natural', portugueseScaffolding: 'none' }
+];
+
+const isEvaluated = (session: SessionResult) => !session.evaluationStatus || session.evaluationStatus === 'done';
+
+// Sessions too short to evaluate got a fixed score of 10, which says nothing about the learner
+const describesLearner = (session: SessionResult) => isEvaluated(session) && !isTooShortToEvaluate(session.transcript || '');
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+/**
+ * Summarises the learner from `history` (newest first). `profileLevel` is the level kept on the profile
+ * (utils/cefr), which is steadier than any single session.
+ */
+export const buildLearnerModel = (profileLevel: CefrLevel | undefined, history: SessionResult[]): LearnerModel => {
+  const recent = history.filter(describesLearner).slice(0, RECENT_SESSIONS);
+  const level = profileLevel || recent.map(session => session.cefr?.level).find(isCefrLevel);
+
+  const skills = {
+    vocabulary: average(recent.map(s => s.vocabularyScore)),
+    grammar: average(recent.map(s => s.grammarScore)),
+    // Typed sessions and estimated grades say nothing about pronunciation
+    pronunciation: average(recent.filter(s => s.inputMode !== 'text' && !s.pronunciationEstimated).map(s => s.pronunciationScore))
+  };
+  const measured = (Object.keys(skills) as (keyof typeof skills)[]).filter(skill => skills[skill] !== null);
+  let weakestSkill: LearnerModel['weakestSkill'];
+  if (measured.length > 1) {
+    const lowest = measured.reduce((a, b) => skills[a]! <= skills[b]! ? a : b);
+    const others = average(measured.filter(skill => skill !== lowest).map(skill => skills[skill]!))!;
+    if (skills[lowest]! <= others - WEAK_SKILL_GAP) weakestSkill = lowest;
+  }
+
+  const mistakes = recent.flatMap(session => session.mistakes || []);
+  const counts = new Map<MistakeCategory, number>();
+  mistakes.forEach(mistake => counts.set(mistake.category, (counts.get(mistake.category) || 0) + 1));
+
+  return {
+    level,
+    sessionsConsidered: recent.length,
+    recentScore: recent.length ? Math.round(average(recent.map(s => s.overallScore))!) : null,
+    weakestSkill,
+    frequentMistakes: [...counts.entries()]
+      .map(([category, count]) => ({ category, count }))
+      .sort((a, b) => b.count - a.count),
+    // The same slip repeated across sessions is one example
+    recentMistakes: mistakes
+      .filter((mistake, i) => mistakes.findIndex(m => m.original.toLowerCase() === mistake.original.toLowerCase()) === i)
+      .slice(0, MAX_MISTAKE_EXAMPLES)
+  };
+};
+
+const describeMistake = (mistake: Mistake) => `saying "${mistake.original}" instead of "${mistake.corrected}"`;
+
+/**
+ * Tutor difficulty for the learner, or null for a new learner with nothing to go on.
+ */
+export const getDifficultyParameters = (model: LearnerModel): DifficultyParameters | null => {
+  if (!model.level && model.recentScore === null) return null;
+
+  let band = model.level ? CEFR_LEVELS.indexOf(model.level) : 1;
+  if (model.recentScore !== null && model.recentScore >= STRETCH_SCORE) band++;
+  if (model.recentScore !== null && model.recentScore < STRUGGLE_SCORE) band--;
+  band = Math.max(0, Math.min(DIFFICULTY_BANDS.length - 1, band));
+
+  const focusPoints = [
+    ...(model.weakestSkill ? [`the learner's ${model.weakestSkill}, their weakest skill`] : []),
+    ...model.frequentMistakes
+      .filter(({ count }) => count >= MIN_FREQUENT_MISTAKES)
+      .slice(0, 2)
+      .map(({ category }) => MISTAKE_FOCUS[category]),
+    ...model.recentMistakes.map(mistake => `recent mistake: ${describeMistake(mistake)}`)
+  ];
+
+  return { ...DIFFICULTY_BANDS[band], focusPoints };
+};
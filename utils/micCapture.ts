@@ -0,0 +1,193 @@
+// Microphone capture pipeline: anti-aliased resampling to 16 kHz and fixed-size chunking.
+// Runs inside an AudioWorklet when available, falling back to a ScriptProcessorNode otherwise.
+
+export const TARGET_SAMPLE_RATE = 16000;
+// 100 ms of audio at 16 kHz per chunk sent to Gemini
+export const CHUNK_SAMPLES = 1600;
+
+const WORKLET_PROCESSOR_NAME = 'fluent-pcm-capture';
+
+/**
+ * Streaming windowed-sinc resampler.
+ * The kernel cutoff is lowered to the target Nyquist when downsampling, so content above
+ * 8 kHz is filtered out instead of folding back into the speech band.
+ * Must stay self-contained: its source is stringified into the worklet module.
+ */
+export class PcmResampler {
+  private ratio: number;
+  private cutoff: number;
+  private halfTaps: number;
+  private history: Float32Array;
+  private position: number;
+
+  constructor(sourceRate: number, targetRate: number, halfTaps = 16) {
+    this.ratio = sourceRate / targetRate;
+    this.cutoff = Math.min(1, targetRate / sourceRate) * 0.95;
+    this.halfTaps = halfTaps;
+    this.history = new Float32Array(halfTaps);
+    this.position = halfTaps;
+  }
+
+  private kernel(x: number): number {
+    if (Math.abs(x) >= this.halfTaps) return 0;
+    const window = 0.42 + 0.5 * Math.cos((Math.PI * x) / this.halfTaps) + 0.08 * Math.cos((2 * Math.PI * x) / this.halfTaps);
+    const arg = Math.PI * this.cutoff * x;
+    const sinc = x === 0 ? 1 : Math.sin(arg) / arg;
+    return this.cutoff * sinc * window;
+  }
+
+  process(input: Float32Array): Float32Array {
+    if (this.ratio === 1) return input.slice();
+
+    const buffer = new Float32Array(this.history.length + input.length);
+    buffer.set(this.history, 0);
+    buffer.set(input, this.history.length);
+
+    const output: number[] = [];
+    let t = this.position;
+    while (t + this.halfTaps < buffer.length) {
+      const center = Math.floor(t);
+      let sum = 0;
+      for (let k = center - this.halfTaps + 1; k <= center + this.halfTaps; k++) {
+        if (k < 0) continue;
+        sum += buffer[k] * this.kernel(t - k);
+      }
+      output.push(sum);
+      t += this.ratio;
+    }
+
+    // Keep just enough past samples to centre the kernel on the next output position
+    const keepFrom = Math.max(0, Math.floor(t) - this.halfTaps + 1);
+    this.history = buffer.slice(keepFrom);
+    this.position = t - keepFrom;
+
+    return Float32Array.from(output);
+  }
+}
+
+/**
+ * Accumulates resampled audio and emits it in chunks of exactly `size` samples.
+ */
+export class PcmChunker {
+  private size: number;
+  private pending: Float32Array;
+  private filled: number;
+
+  constructor(size: number) {
+    this.size = size;
+    this.pending = new Float32Array(size);
+    this.filled = 0;
+  }
+
+  push(data: Float32Array, emit: (chunk: Float32Array) => void) {
+    let offset = 0;
+    while (offset < data.length) {
+      const take = Math.min(this.size - this.filled, data.length - offset);
+      this.pending.set(data.subarray(offset, offset + take), this.filled);
+      this.filled += take;
+      offset += take;
+      if (this.filled === this.size) {
+        emit(this.pending);
+        this.pending = new Float32Array(this.size);
+        this.filled = 0;
+      }
+    }
+  }
+}
+
+const buildWorkletSource = () => `
+const PcmResampler = (${PcmResampler.toString()});
+const PcmChunker = (${PcmChunker.toString()});
+
+class FluentPcmCapture extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    this.resampler = new PcmResampler(sampleRate, targetRate);
+    this.chunker = new PcmChunker(chunkSize);
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      this.chunker.push(this.resampler.process(channel), (chunk) => {
+        this.port.postMessage(chunk, [chunk.buffer]);
+      });
+    }
+    return true;
+  }
+}
+
+registerProcessor('${WORKLET_PROCESSOR_NAME}', FluentPcmCapture);
+`;
+
+let workletUrl: string | null = null;
+const getWorkletUrl = () => {
+  if (!workletUrl) {
+    workletUrl = URL.createObjectURL(new Blob([buildWorkletSource()], { type: 'application/javascript' }));
+  }
+  return workletUrl;
+};
+
+export interface MicCapture {
+  mode: 'worklet' | 'script-processor';
+  stop: () => void;
+}
+
+/**
+ * Starts streaming the given microphone stream as 16 kHz mono chunks of CHUNK_SAMPLES.
+ * The caller owns both the AudioContext and the MediaStream; stop() only tears down the capture nodes.
+ */
+export const startMicCapture = async (
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (chunk: Float32Array) => void
+): Promise<MicCapture> => {
+  const source = ctx.createMediaStreamSource(stream);
+
+  if (ctx.audioWorklet && typeof AudioWorkletNode !== 'undefined') {
+    try {
+      await ctx.audioWorklet.addModule(getWorkletUrl());
+      const node = new AudioWorkletNode(ctx, WORKLET_PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions: { targetRate: TARGET_SAMPLE_RATE, chunkSize: CHUNK_SAMPLES },
+      });
+      node.port.onmessage = (e: MessageEvent<Float32Array>) => onChunk(e.data);
+      source.connect(node);
+
+      return {
+        mode: 'worklet',
+        stop: () => {
+          node.port.onmessage = null;
+          try { source.disconnect(); } catch (e) {}
+          try { node.disconnect(); } catch (e) {}
+        },
+      };
+    } catch (err) {
+      console.warn("AudioWorklet unavailable, falling back to ScriptProcessor", err);
+    }
+  }
+
+  // Fallback for browsers without AudioWorklet (older Safari, some embedded webviews)
+  const resampler = new PcmResampler(ctx.sampleRate, TARGET_SAMPLE_RATE);
+  const chunker = new PcmChunker(CHUNK_SAMPLES);
+  const processor = ctx.createScriptProcessor(4096, 1, 1);
+  processor.onaudioprocess = (e) => {
+    chunker.push(resampler.process(e.inputBuffer.getChannelData(0)), onChunk);
+  };
+  source.connect(processor);
+  // ScriptProcessor only fires while connected to the destination; its output stays silent
+  processor.connect(ctx.destination);
+
+  return {
+    mode: 'script-processor',
+    stop: () => {
+      processor.onaudioprocess = null;
+      try { source.disconnect(); } catch (e) {}
+      try { processor.disconnect(); } catch (e) {}
+    },
+  };
+};
@@ -0,0 +1,121 @@
+// Records a practice session (learner mic + tutor voice) mixed down to a single mono track.
+import { encodeWav } from './audio';
+import { startMicCapture, MicCapture, TARGET_SAMPLE_RATE } from './micCapture';
+
+export type RecordingFormat = 'opus' | 'wav';
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  // Recording silently stops after this many seconds; the session itself keeps going
+  maxDurationSeconds: number;
+}
+
+export interface SessionRecordingFile {
+  blob: Blob;
+  format: RecordingFormat;
+  durationSeconds: number;
+}
+
+export interface SessionRecorder {
+  format: RecordingFormat;
+  stop: () => Promise<SessionRecordingFile | null>;
+}
+
+const OPUS_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+
+const pickOpusMimeType = () => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return OPUS_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || null;
+};
+
+/**
+ * The mic as a node of the output context, or null when the browser can't connect it.
+ * Firefox refuses a MediaStreamSource whose sample rate differs from its context (the output runs at 24 kHz);
+ * the recording then keeps the tutor's voice alone rather than failing.
+ */
+const createMicSource = (ctx: AudioContext, micStream: MediaStream): MediaStreamAudioSourceNode | null => {
+  try {
+    return ctx.createMediaStreamSource(micStream);
+  } catch (e) {
+    console.warn("Mic can't join the recording context, recording the tutor only", e);
+    return null;
+  }
+};
+
+/**
+ * Starts recording inside the output AudioContext: the mic stream and the tutor's output node
+ * are mixed into a MediaStreamDestination, which is then encoded either natively to Opus
+ * (MediaRecorder) or captured as 16 kHz PCM and packed into a WAV at the end.
+ * Falls back to WAV when the browser cannot record Opus.
+ */
+export const startSessionRecorder = async (
+  ctx: AudioContext,
+  micStream: MediaStream | null,
+  tutorOutput: AudioNode,
+  options: RecordingOptions
+): Promise<SessionRecorder> => {
+  const mixer = ctx.createMediaStreamDestination();
+  mixer.channelCount = 1;
+  // No mic in text mode: only the tutor is recorded
+  const micSource = micStream ? createMicSource(ctx, micStream) : null;
+  micSource?.connect(mixer);
+  tutorOutput.connect(mixer);
+
+  const startedAt = Date.now();
+  const elapsedSeconds = () => Math.min((Date.now() - startedAt) / 1000, options.maxDurationSeconds);
+
+  const detach = () => {
+    try { micSource?.disconnect(); } catch (e) {}
+    try { tutorOutput.disconnect(mixer); } catch (e) {}
+  };
+
+  const opusMimeType = options.format === 'opus' ? pickOpusMimeType() : null;
+
+  if (opusMimeType) {
+    const recorder = new MediaRecorder(mixer.stream, { mimeType: opusMimeType });
+    const parts: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) parts.push(e.data);
+    };
+    recorder.start(1000);
+    const limitTimer = setTimeout(() => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    }, options.maxDurationSeconds * 1000);
+
+    return {
+      format: 'opus',
+      stop: () => new Promise(resolve => {
+        clearTimeout(limitTimer);
+        const finish = () => {
+          detach();
+          resolve(parts.length ? { blob: new Blob(parts, { type: opusMimeType }), format: 'opus', durationSeconds: elapsedSeconds() } : null);
+        };
+        if (recorder.state === 'inactive') {
+          finish();
+        } else {
+          recorder.onstop = finish;
+          recorder.stop();
+        }
+      }),
+    };
+  }
+
+  const chunks: Float32Array[] = [];
+  const maxSamples = options.maxDurationSeconds * TARGET_SAMPLE_RATE;
+  let capturedSamples = 0;
+  const capture: MicCapture = await startMicCapture(ctx, mixer.stream, (chunk) => {
+    if (capturedSamples >= maxSamples) return;
+    chunks.push(chunk);
+    capturedSamples += chunk.length;
+  });
+
+  return {
+    format: 'wav',
+    stop: async () => {
+      capture.stop();
+      detach();
+      if (!chunks.length) return null;
+      return { blob: encodeWav(chunks, TARGET_SAMPLE_RATE), format: 'wav', durationSeconds: capturedSamples / TARGET_SAMPLE_RATE };
+    },
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { Turn } from '../types';
+import { makeTurn } from '../test/fixtures';
+import { MAX_SEGMENT_CHARS, getScoreTrend, isLongSession, splitIntoSegments } from './sessionSegments';
+
+// One turn every 30 seconds, alternating learner and tutor, for `minutes` minutes
+const conversation = (minutes: number, text = 'I think that is a good idea.'): Turn[] =>
+  Array.from({ length: minutes * 2 }, (_, i) => makeTurn(i % 2 === 0 ? 'user' : 'model', text, i * 30, i * 30 + 20));
+
+const spanMinutes = (turns: Turn[]) => (turns[turns.length - 1].audioEndOffset - turns[0].audioStartOffset) / 60;
+
+describe('splitIntoSegments', () => {
+  it('keeps a short session in one part', () => {
+    const turns = conversation(12);
+    expect(isLongSession(turns)).toBe(false);
+    expect(splitIntoSegments(turns)).toEqual([turns]);
+  });
+
+  it('cuts a long session into parts of about ten minutes, between turns', () => {
+    const turns = conversation(35);
+    const segments = splitIntoSegments(turns);
+
+    expect(segments.map(segment => segment.length)).toEqual([20, 20, 20, 10]);
+    expect(segments.flat()).toEqual(turns);
+  });
+
+  it('merges a short last part into the previous one', () => {
+    const segments = splitIntoSegments(conversation(21));
+
+    expect(segments).toHaveLength(2);
+    expect(spanMinutes(segments[1])).toBeGreaterThan(10);
+  });
+
+  it('also cuts when the transcript of a part gets too long', () => {
+    // Four minutes of typing, far more text than a spoken part
+    const turns = conversation(4, 'word '.repeat(400));
+    expect(isLongSession(turns)).toBe(true);
+
+    const segments = splitIntoSegments(turns);
+    expect(segments.length).toBeGreaterThan(1);
+    segments.slice(0, -1).forEach(segment => {
+      expect(segment.reduce((sum, turn) => sum + turn.text.length, 0)).toBeLessThanOrEqual(MAX_SEGMENT_CHARS);
+    });
+    expect(segments.flat()).toEqual(turns);
+  });
+});
+
+describe('getScoreTrend', () => {
+  it('needs at least two parts', () => {
+    expect(getScoreTrend([70])).toBeUndefined();
+  });
+
+  it('compares the last part with the first', () => {
+    expect(getScoreTrend([60, 50, 66])).toBe('improved');
+    expect(getScoreTrend([80, 90, 74])).toBe('declined');
+    expect(getScoreTrend([70, 40, 73])).toBe('steady');
+  });
+});
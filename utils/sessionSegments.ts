@@ -0,0 +1,68 @@
+// Splitting of long sessions for the map-reduce evaluation (services/evaluation.ts) and the score trend
+// across the resulting parts.
+import { Turn, ScoreTrend } from '../types';
+import { formatTranscript } from './transcript';
+
+// Sessions up to this length are evaluated in one request
+export const LONG_SESSION_SECONDS = 15 * 60;
+// Target length of each part; cuts only happen between turns
+export const SEGMENT_SECONDS = 10 * 60;
+// A part is also closed once its transcript gets this long (fast talkers, typed sessions)
+export const MAX_SEGMENT_CHARS = 12000;
+// A last part shorter than this is merged into the previous one
+const MIN_SEGMENT_SECONDS = 3 * 60;
+// Smaller moves between the first and last part count as steady
+const TREND_THRESHOLD = 5;
+
+const sessionSpan = (turns: Turn[]) => turns.length ? turns[turns.length - 1].audioEndOffset - turns[0].audioStartOffset : 0;
+
+export const isLongSession = (turns: Turn[]) =>
+  sessionSpan(turns) > LONG_SESSION_SECONDS || formatTranscript(turns).length > MAX_SEGMENT_CHARS;
+
+/**
+ * Splits the turn log into consecutive parts of about SEGMENT_SECONDS each.
+ * Short sessions come back as a single part.
+ */
+export const splitIntoSegments = (turns: Turn[]): Turn[][] => {
+  if (!isLongSession(turns)) return [turns];
+
+  const segments: Turn[][] = [];
+  let current: Turn[] = [];
+  let chars = 0;
+  for (const turn of turns) {
+    const lineLength = turn.text.length + 16; // Room for the "[mm:ss] Avatar: " prefix
+    const tooLong = current.length > 0 && (
+      turn.audioStartOffset - current[0].audioStartOffset >= SEGMENT_SECONDS || chars + lineLength > MAX_SEGMENT_CHARS
+    );
+    if (tooLong) {
+      segments.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(turn);
+    chars += lineLength;
+  }
+  if (current.length) {
+    const previous = segments[segments.length - 1];
+    if (previous && sessionSpan(current) < MIN_SEGMENT_SECONDS && formatTranscript(current).length < MAX_SEGMENT_CHARS / 4) {
+      previous.push(...current);
+    } else {
+      segments.push(current);
+    }
+  }
+  return segments;
+};
+
+export const getScoreTrend = (scores: number[]): ScoreTrend | undefined => {
+  if (scores.length < 2) return undefined;
+  const delta = scores[scores.length - 1] - scores[0];
+  if (delta >= TREND_THRESHOLD) return 'improved';
+  if (delta <= -TREND_THRESHOLD) return 'declined';
+  return 'steady';
+};
+
+export const SCORE_TREND_LABELS: Record<ScoreTrend, string> = {
+  improved: 'melhorou no final',
+  declined: 'caiu no final',
+  steady: 'manteve o nível'
+};
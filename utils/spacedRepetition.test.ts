@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { VocabularyCard } from '../types';
+import { INITIAL_EASE_FACTOR, isDue, newCardSchedule, reviewCard, toLocalDate } from './spacedRepetition';
+
+const now = new Date(2026, 9, 18, 9, 30);
+
+const card = (changes: Partial<VocabularyCard> = {}): VocabularyCard => ({
+  id: 'card-1',
+  term: 'worthwhile',
+  meaning: 'que vale a pena',
+  example: 'It was worthwhile.',
+  source: 'tutor',
+  ...newCardSchedule(now),
+  ...changes
+});
+
+describe('newCardSchedule', () => {
+  it('makes a new card due today with the initial ease factor', () => {
+    expect(newCardSchedule(now)).toEqual({ easeFactor: INITIAL_EASE_FACTOR, intervalDays: 0, repetitions: 0, dueDate: '2026-10-18' });
+    expect(isDue(card(), now)).toBe(true);
+  });
+});
+
+describe('reviewCard', () => {
+  it('goes 1 day, then 6 days, then interval × ease factor', () => {
+    const first = reviewCard(card(), 4, now);
+    expect(first).toMatchObject({ intervalDays: 1, repetitions: 1, easeFactor: 2.5, dueDate: '2026-10-19' });
+
+    const second = reviewCard(card(first), 4, now);
+    expect(second).toMatchObject({ intervalDays: 6, repetitions: 2, dueDate: '2026-10-24' });
+
+    const third = reviewCard(card(second), 4, now);
+    expect(third).toMatchObject({ intervalDays: 15, repetitions: 3 });
+  });
+
+  it('changes the ease factor by the SM-2 formula', () => {
+    expect(reviewCard(card(), 5, now).easeFactor).toBe(2.6);
+    expect(reviewCard(card(), 4, now).easeFactor).toBe(2.5);
+    expect(reviewCard(card(), 3, now).easeFactor).toBe(2.36);
+    expect(reviewCard(card(), 1, now).easeFactor).toBe(1.96);
+  });
+
+  it('never lets the ease factor go below 1.3', () => {
+    expect(reviewCard(card({ easeFactor: 1.4 }), 1, now).easeFactor).toBe(1.3);
+  });
+
+  it('starts a forgotten card over at 1 day', () => {
+    const review = reviewCard(card({ repetitions: 5, intervalDays: 40, easeFactor: 2.2 }), 1, now);
+    expect(review).toMatchObject({ intervalDays: 1, repetitions: 0, dueDate: '2026-10-19' });
+  });
+
+  it('records when the card was reviewed', () => {
+    expect(reviewCard(card(), 4, now).lastReviewedAt).toBe(now.toISOString());
+  });
+});
+
+describe('isDue', () => {
+  it('compares local calendar days', () => {
+    expect(isDue(card({ dueDate: '2026-10-19' }), now)).toBe(false);
+    expect(isDue(card({ dueDate: '2026-10-19' }), new Date(2026, 9, 19, 0, 5))).toBe(true);
+    expect(toLocalDate(new Date(2026, 0, 5))).toBe('2026-01-05');
+  });
+});
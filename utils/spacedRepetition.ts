@@ -0,0 +1,63 @@
+// SM-2 scheduling of the vocabulary deck: ease factor, review interval and due date of each card.
+import { VocabularyCard } from '../types';
+
+// Answer buttons of the review, mapped to SM-2 quality grades (0-5)
+export const REVIEW_GRADES = [
+  { grade: 1, label: 'Errei' },
+  { grade: 3, label: 'Difícil' },
+  { grade: 4, label: 'Bom' },
+  { grade: 5, label: 'Fácil' }
+] as const;
+
+export const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+export type CardSchedule = Pick<VocabularyCard, 'easeFactor' | 'intervalDays' | 'repetitions' | 'dueDate' | 'lastReviewedAt'>;
+
+// Local calendar day (YYYY-MM-DD): "due today" follows the learner's clock, not UTC
+export const toLocalDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+export const newCardSchedule = (now = new Date()): CardSchedule => ({
+  easeFactor: INITIAL_EASE_FACTOR,
+  intervalDays: 0,
+  repetitions: 0,
+  dueDate: toLocalDate(now)
+});
+
+export const isDue = (card: VocabularyCard, now = new Date()) => card.dueDate <= toLocalDate(now);
+
+/**
+ * Next schedule of a card after a review graded `grade` (0-5, below 3 means forgotten).
+ * Forgotten cards start over at 1 day; remembered ones go 1 day, 6 days, then interval × ease factor.
+ */
+export const reviewCard = (card: VocabularyCard, grade: number, now = new Date()): CardSchedule => {
+  const easeFactor = Math.max(MIN_EASE_FACTOR, card.easeFactor + 0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02));
+
+  let repetitions = card.repetitions + 1;
+  let intervalDays: number;
+  if (grade < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else if (card.repetitions === 0) {
+    intervalDays = 1;
+  } else if (card.repetitions === 1) {
+    intervalDays = 6;
+  } else {
+    intervalDays = Math.round(card.intervalDays * easeFactor);
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueDate: toLocalDate(addDays(now, intervalDays)),
+    lastReviewedAt: now.toISOString()
+  };
+};
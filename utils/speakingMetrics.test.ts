@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { makeTurn as turn } from '../test/fixtures';
+import { computeSpeakingMetrics, tokenize } from './speakingMetrics';
+
+describe('tokenize', () => {
+  it('lower-cases and keeps apostrophes and accented letters', () => {
+    expect(tokenize("I don't know, você SABE?")).toEqual(['i', "don't", 'know', 'você', 'sabe']);
+  });
+});
+
+describe('computeSpeakingMetrics', () => {
+  it('computes words per minute from the learner speaking time', () => {
+    const metrics = computeSpeakingMetrics([
+      turn('model', 'Tell me about your weekend.', 0, 2),
+      turn('user', 'I went to the beach with my family', 2, 5),
+      turn('user', 'and we ate fish', 6, 9)
+    ]);
+
+    expect(metrics.userWordCount).toBe(12);
+    expect(metrics.userSpeakingSeconds).toBe(6);
+    expect(metrics.wordsPerMinute).toBe(120);
+    expect(metrics.averageUtteranceLength).toBe(6);
+  });
+
+  it('does not count pauses between turns as speaking time', () => {
+    const metrics = computeSpeakingMetrics([
+      turn('user', 'hello there', 0, 2),
+      turn('model', 'Hi! How are you?', 10, 12),
+      turn('user', 'fine thanks', 30, 32)
+    ]);
+
+    expect(metrics.userSpeakingSeconds).toBe(4);
+    expect(metrics.tutorSpeakingSeconds).toBe(2);
+    expect(metrics.userSpeakingShare).toBe(0.67);
+  });
+
+  it('prefers the measured speaking times when they are given', () => {
+    const metrics = computeSpeakingMetrics(
+      [turn('user', 'one two three four five six', 0, 60)],
+      { userSpeakingSeconds: 3, tutorSpeakingSeconds: 9 }
+    );
+
+    expect(metrics.wordsPerMinute).toBe(120);
+    expect(metrics.userSpeakingShare).toBe(0.25);
+  });
+
+  it('has no speech rate for typed sessions', () => {
+    const metrics = computeSpeakingMetrics([turn('user', 'I typed this', 0, 0)]);
+    expect(metrics.wordsPerMinute).toBeNull();
+    expect(metrics.userSpeakingShare).toBe(0);
+  });
+
+  it('counts filler words and Portuguese words', () => {
+    const metrics = computeSpeakingMetrics([
+      turn('user', 'Um, I like, uh, tipo, gosto de music né', 0, 5)
+    ]);
+
+    expect(metrics.fillerCounts).toEqual({ uh: 1, um: 1, like: 1, tipo: 1, né: 1 });
+    // tipo, gosto, de, né out of 9 words
+    expect(metrics.portugueseWordRatio).toBe(0.44);
+  });
+
+  it('ignores the tutor words', () => {
+    const metrics = computeSpeakingMetrics([turn('model', 'uh um like', 0, 2)]);
+    expect(metrics.userWordCount).toBe(0);
+    expect(metrics.fillerCounts.uh).toBe(0);
+    expect(metrics.lexicalDiversity).toBe(0);
+  });
+
+  it('uses the plain type-token ratio for short sessions', () => {
+    const metrics = computeSpeakingMetrics([turn('user', 'the cat and the dog', 0, 2)]);
+    expect(metrics.typeTokenRatio).toBe(0.8);
+    expect(metrics.lexicalDiversity).toBe(0.8);
+  });
+
+  it('keeps the lexical diversity comparable across session lengths', () => {
+    // Repeating the same varied text lowers the raw ratio as the session grows, but not the windowed one
+    const paragraph = Array.from({ length: 50 }, (_, i) => `word${String.fromCharCode(97 + (i % 26))}${i < 26 ? '' : 'x'}`).join(' ');
+    const metrics = computeSpeakingMetrics([
+      turn('user', paragraph, 0, 20),
+      turn('user', paragraph, 20, 40),
+      turn('user', paragraph, 40, 60)
+    ]);
+
+    expect(metrics.typeTokenRatio).toBe(0.33);
+    expect(metrics.lexicalDiversity).toBe(1);
+  });
+});
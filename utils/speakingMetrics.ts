@@ -0,0 +1,80 @@
+// Objective speaking metrics computed locally from the turn log: same input, same numbers.
+import { Turn, SpeakingMetrics } from '../types';
+
+// Window of the moving-average type-token ratio; raw TTR drops as sessions get longer
+const MATTR_WINDOW = 50;
+
+// Hesitation words counted in the learner's speech. "like" also counts its legitimate uses.
+export const FILLER_WORDS = ['uh', 'um', 'like', 'tipo', 'né'];
+
+// Frequent Portuguese words that are not also English words ("a", "no", "me", "do" are left out on purpose)
+const PORTUGUESE_WORDS = new Set([
+  'que', 'não', 'nao', 'eu', 'você', 'voce', 'é', 'está', 'esta', 'estou', 'isso', 'isto', 'então', 'entao',
+  'mas', 'muito', 'muita', 'também', 'tambem', 'porque', 'como', 'para', 'pra', 'com', 'uma', 'ele', 'ela',
+  'eles', 'elas', 'nós', 'tem', 'tenho', 'fazer', 'sim', 'obrigado', 'obrigada', 'tudo', 'bem', 'aqui',
+  'agora', 'onde', 'quando', 'qual', 'quero', 'sei', 'falar', 'inglês', 'ingles', 'tipo', 'né', 'ou', 'meu',
+  'minha', 'seu', 'sua', 'foi', 'ser', 'vou', 'gosto', 'acho', 'coisa', 'gente', 'legal', 'nada', 'ainda',
+  'já', 'só', 'mais', 'mesmo', 'depois', 'antes', 'hoje', 'ontem', 'amanhã', 'de', 'da', 'das', 'dos', 'em',
+  'na', 'nas', 'nos', 'o', 'os', 'pelo', 'pela', 'por', 'favor', 'desculpa', 'entendi', 'sabe', 'assim'
+]);
+
+// Letters that never appear in English words
+const PORTUGUESE_CHARS = /[ãõçáàâéêíóôú]/;
+
+export const tokenize = (text: string) => text.toLowerCase().match(/[a-zà-ÿ']+/g) || [];
+
+const movingAverageTtr = (tokens: string[]) => {
+  if (tokens.length === 0) return 0;
+  if (tokens.length <= MATTR_WINDOW) return new Set(tokens).size / tokens.length;
+  let sum = 0;
+  const windows = tokens.length - MATTR_WINDOW + 1;
+  for (let i = 0; i < windows; i++) {
+    sum += new Set(tokens.slice(i, i + MATTR_WINDOW)).size / MATTR_WINDOW;
+  }
+  return sum / windows;
+};
+
+const turnSeconds = (turns: Turn[]) =>
+  turns.reduce((sum, turn) => sum + Math.max(0, turn.audioEndOffset - turn.audioStartOffset), 0);
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Computes the session metrics. `timing` carries measured speaking times (see useLiveAvatar.getSpeakingTimes);
+ * without it, the span of each side's turns is used instead.
+ */
+export const computeSpeakingMetrics = (
+  turns: Turn[],
+  timing: { userSpeakingSeconds?: number; tutorSpeakingSeconds?: number } = {}
+): SpeakingMetrics => {
+  const userTurns = turns.filter(turn => turn.speaker === 'user');
+  const tutorTurns = turns.filter(turn => turn.speaker === 'model');
+
+  const userSpeakingSeconds = timing.userSpeakingSeconds ?? turnSeconds(userTurns);
+  const tutorSpeakingSeconds = timing.tutorSpeakingSeconds ?? turnSeconds(tutorTurns);
+  const totalSpeakingSeconds = userSpeakingSeconds + tutorSpeakingSeconds;
+
+  const utterances = userTurns.map(turn => tokenize(turn.text)).filter(tokens => tokens.length > 0);
+  const tokens = utterances.flat();
+
+  const fillerCounts: Record<string, number> = Object.fromEntries(FILLER_WORDS.map(word => [word, 0]));
+  let portugueseWords = 0;
+  for (const token of tokens) {
+    if (token in fillerCounts) fillerCounts[token]++;
+    if (PORTUGUESE_WORDS.has(token) || PORTUGUESE_CHARS.test(token)) portugueseWords++;
+  }
+
+  return {
+    userSpeakingSeconds: round(userSpeakingSeconds, 1),
+    tutorSpeakingSeconds: round(tutorSpeakingSeconds, 1),
+    userSpeakingShare: totalSpeakingSeconds > 0 ? round(userSpeakingSeconds / totalSpeakingSeconds) : 0,
+    // Typed sessions have no speaking time, so no speech rate
+    wordsPerMinute: userSpeakingSeconds > 0 ? Math.round(tokens.length / (userSpeakingSeconds / 60)) : null,
+    userWordCount: tokens.length,
+    typeTokenRatio: tokens.length > 0 ? round(new Set(tokens).size / tokens.length) : 0,
+    lexicalDiversity: round(movingAverageTtr(tokens)),
+    averageUtteranceLength: utterances.length > 0 ? round(tokens.length / utterances.length, 1) : 0,
+    fillerCounts,
+    portugueseWordRatio: tokens.length > 0 ? round(portugueseWords / tokens.length) : 0
+  };
+};
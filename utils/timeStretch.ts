@@ -0,0 +1,141 @@
+// Pitch-preserving time stretch (WSOLA) for the tutor's 24 kHz voice.
+// Streaming: chunks from the Live API are fed one by one and the stretcher keeps state between them,
+// so there are no clicks at chunk boundaries.
+
+export const SPEECH_RATES = [0.75, 0.9, 1] as const;
+
+// Tuned for speech at 24 kHz
+const FRAME_SIZE = 720; // 30 ms
+const SYNTHESIS_HOP = FRAME_SIZE / 2; // 50% overlap: Hann windows sum to 1
+const SEARCH_TOLERANCE = 120; // ±5 ms around the nominal analysis position
+
+const HANN = (() => {
+  const window = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+  }
+  return window;
+})();
+
+export class WsolaStretcher {
+  private rate: number;
+  private analysisHop: number;
+  private input = new Float32Array(0);
+  private analysisPos = 0; // Nominal read position in `input` (fractional)
+  private prevFramePos = -1; // Where the last frame was actually taken from
+  private tail = new Float32Array(SYNTHESIS_HOP); // Second half of the last windowed frame
+
+  // rate < 1 slows speech down (0.75 = 75% of the original speed)
+  constructor(rate: number) {
+    this.rate = rate;
+    this.analysisHop = SYNTHESIS_HOP * rate;
+  }
+
+  /**
+   * Picks the frame start near `nominal` whose waveform best continues the previous frame.
+   */
+  private findBestOffset(nominal: number): number {
+    if (this.prevFramePos < 0) return nominal;
+
+    const natural = this.prevFramePos + SYNTHESIS_HOP;
+    const from = Math.max(0, nominal - SEARCH_TOLERANCE);
+    const to = Math.min(this.input.length - FRAME_SIZE, nominal + SEARCH_TOLERANCE);
+
+    let best = nominal;
+    let bestScore = -Infinity;
+    for (let candidate = from; candidate <= to; candidate++) {
+      let score = 0;
+      // Only the overlapping half matters; every other sample is plenty for speech
+      for (let i = 0; i < SYNTHESIS_HOP; i += 2) {
+        score += this.input[candidate + i] * this.input[natural + i];
+      }
+      if (score > bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    }
+    return best;
+  }
+
+  process(chunk: Float32Array): Float32Array {
+    if (this.rate === 1) return chunk;
+
+    const merged = new Float32Array(this.input.length + chunk.length);
+    merged.set(this.input, 0);
+    merged.set(chunk, this.input.length);
+    this.input = merged;
+
+    const output: Float32Array[] = [];
+    while (true) {
+      const nominal = Math.round(this.analysisPos);
+      const natural = this.prevFramePos + SYNTHESIS_HOP;
+      const needed = Math.max(nominal + SEARCH_TOLERANCE, natural) + FRAME_SIZE;
+      if (needed > this.input.length) break;
+
+      const framePos = this.findBestOffset(nominal);
+      const out = new Float32Array(SYNTHESIS_HOP);
+      for (let i = 0; i < SYNTHESIS_HOP; i++) {
+        out[i] = this.tail[i] + this.input[framePos + i] * HANN[i];
+      }
+      for (let i = 0; i < SYNTHESIS_HOP; i++) {
+        this.tail[i] = this.input[framePos + SYNTHESIS_HOP + i] * HANN[SYNTHESIS_HOP + i];
+      }
+      output.push(out);
+
+      this.prevFramePos = framePos;
+      this.analysisPos += this.analysisHop;
+    }
+
+    // Drop input that no future frame or search window can reach
+    const keepFrom = Math.max(0, Math.min(this.prevFramePos, Math.floor(this.analysisPos) - SEARCH_TOLERANCE));
+    if (keepFrom > 0) {
+      this.input = this.input.slice(keepFrom);
+      this.analysisPos -= keepFrom;
+      this.prevFramePos -= keepFrom;
+    }
+
+    return concat(output);
+  }
+
+  /**
+   * Emits what is still buffered (end of a tutor turn) and resets the stretcher.
+   * The last few milliseconds are passed through unstretched.
+   */
+  flush(): Float32Array {
+    if (this.rate === 1) return new Float32Array(0);
+
+    let out: Float32Array;
+    if (this.prevFramePos < 0) {
+      out = this.input.slice();
+    } else {
+      // The pending tail fades out exactly where the remaining raw samples fade in
+      const rest = this.input.subarray(this.prevFramePos + SYNTHESIS_HOP);
+      out = new Float32Array(Math.max(SYNTHESIS_HOP, rest.length));
+      out.set(this.tail);
+      for (let i = 0; i < rest.length; i++) {
+        out[i] += i < SYNTHESIS_HOP ? rest[i] * HANN[i] : rest[i];
+      }
+    }
+
+    this.reset();
+    return out;
+  }
+
+  reset() {
+    this.input = new Float32Array(0);
+    this.analysisPos = 0;
+    this.prevFramePos = -1;
+    this.tail = new Float32Array(SYNTHESIS_HOP);
+  }
+}
+
+const concat = (parts: Float32Array[]) => {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Float32Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
@@ -0,0 +1,48 @@
+// Plain-text renderings of the structured turn log, for prompts and for sessions saved before `turns` existed.
+import { Turn } from '../types';
+
+// Shorter transcripts get a fixed "too short" result instead of an evaluation (services/evaluation.ts)
+const MIN_EVALUATED_TRANSCRIPT_CHARS = 10;
+
+export const isTooShortToEvaluate = (transcript: string) => transcript.trim().length < MIN_EVALUATED_TRANSCRIPT_CHARS;
+
+export const formatOffset = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * "User: ..." / "Avatar: ..." lines, one per turn.
+ * With `timestamps`, each line starts with its offset in the session and interrupted tutor turns are marked.
+ */
+export const formatTranscript = (turns: Turn[], { timestamps = false } = {}) =>
+  turns.map(turn => {
+    const line = `${turn.speaker === 'user' ? 'User' : 'Avatar'}: ${turn.text.trim()}`;
+    if (!timestamps) return line;
+    return `[${formatOffset(turn.audioStartOffset)}] ${line}${turn.interrupted ? ' [interrupted]' : ''}`;
+  }).join('\n');
+
+/**
+ * Rebuilds turns from a plain "User: ..." / "Avatar: ..." transcript (sessions saved before `turns` existed).
+ * Timing is unknown, so every offset is 0.
+ */
+export const parseTranscript = (transcript: string): Turn[] => {
+  const turns: Turn[] = [];
+  for (const line of transcript.split('\n')) {
+    const match = line.match(/^(User|Avatar):\s*(.*)$/);
+    if (match) {
+      turns.push({
+        speaker: match[1] === 'User' ? 'user' : 'model',
+        text: match[2],
+        startedAt: 0,
+        endedAt: 0,
+        interrupted: false,
+        audioStartOffset: 0,
+        audioEndOffset: 0
+      });
+    } else if (turns.length && line.trim()) {
+      turns[turns.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+  return turns;
+};
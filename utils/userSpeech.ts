@@ -0,0 +1,70 @@
+// Keeps the learner's speech (the 16 kHz chunks actually sent to Gemini) as timed segments,
+// so the post-session evaluation can listen to it.
+import { TARGET_SAMPLE_RATE } from './micCapture';
+
+// Upper bound on what is kept in memory (~19 MB of Float32 at 16 kHz)
+const MAX_STORED_SECONDS = 300;
+
+export interface UserAudioSegment {
+  // Seconds from the start of the session audio, same clock as Turn offsets
+  startOffset: number;
+  endOffset: number;
+  samples: Float32Array; // 16 kHz mono
+}
+
+export class UserSpeechBuffer {
+  private segments: UserAudioSegment[] = [];
+  private current: { startOffset: number; chunks: Float32Array[] } | null = null;
+  private storedSamples = 0;
+  private spokenSamples = 0; // Keeps counting after the storage cap is reached
+
+  // Total learner speech sent during the session
+  get spokenSeconds() {
+    return this.spokenSamples / TARGET_SAMPLE_RATE;
+  }
+
+  /**
+   * Adds chunks that were just sent; `offset` is the session time at the end of the last chunk.
+   */
+  append(chunks: Float32Array[], offset: number) {
+    for (const chunk of chunks) this.spokenSamples += chunk.length;
+    if (!chunks.length || this.storedSamples >= MAX_STORED_SECONDS * TARGET_SAMPLE_RATE) return;
+    if (!this.current) {
+      const length = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+      this.current = { startOffset: Math.max(0, offset - length / TARGET_SAMPLE_RATE), chunks: [] };
+    }
+    for (const chunk of chunks) {
+      this.current.chunks.push(chunk);
+      this.storedSamples += chunk.length;
+    }
+  }
+
+  /**
+   * Closes the running segment (end of a VAD run or push-to-talk release).
+   */
+  end() {
+    if (!this.current) return;
+    const { startOffset, chunks } = this.current;
+    this.current = null;
+
+    const samples = new Float32Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let position = 0;
+    for (const chunk of chunks) {
+      samples.set(chunk, position);
+      position += chunk.length;
+    }
+    this.segments.push({ startOffset, endOffset: startOffset + samples.length / TARGET_SAMPLE_RATE, samples });
+  }
+
+  getSegments(): UserAudioSegment[] {
+    this.end();
+    return this.segments;
+  }
+
+  reset() {
+    this.segments = [];
+    this.current = null;
+    this.storedSamples = 0;
+    this.spokenSamples = 0;
+  }
+}
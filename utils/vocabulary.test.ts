@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { Mistake } from '../types';
+import { makeSession as session } from '../test/fixtures';
+import { MAX_CARDS_PER_SESSION, diffCorrection, extractVocabulary } from './vocabulary';
+
+const mistake = (original: string, corrected: string, category: Mistake['category'] = 'vocabulary'): Mistake => ({
+  original,
+  corrected,
+  category,
+  explanation: 'Explicação em português.'
+});
+
+describe('diffCorrection', () => {
+  it('keeps only the changed words and the word before them', () => {
+    expect(diffCorrection('Yesterday I make a mistake at work.', 'Yesterday I made a mistake at work.'))
+      .toEqual({ mistaken: 'I make', term: 'I made' });
+    expect(diffCorrection('It depends of the weather', 'It depends on the weather'))
+      .toEqual({ mistaken: 'depends of', term: 'depends on' });
+  });
+
+  it('keeps a neighbouring word when a word was only added or removed', () => {
+    expect(diffCorrection('This one is more better', 'This one is better')).toEqual({ mistaken: 'is more better', term: 'is better' });
+    expect(diffCorrection('Can you explain me?', 'Can you explain to me?')).toEqual({ mistaken: 'explain me?', term: 'explain to me' });
+  });
+
+  it('ignores case and trailing punctuation', () => {
+    expect(diffCorrection('I like it.', 'i like it')).toBeNull();
+  });
+});
+
+describe('extractVocabulary', () => {
+  it('turns misused words into correction cards', () => {
+    const items = extractVocabulary(session({
+      mistakes: [mistake('I need to make my homework tonight.', 'I need to do my homework tonight.')]
+    }));
+
+    expect(items).toEqual([{
+      term: 'to do',
+      mistaken: 'to make',
+      meaning: 'Explicação em português.',
+      example: 'I need to do my homework tonight.',
+      source: 'correction'
+    }]);
+  });
+
+  it('skips grammar mistakes and rewritten sentences', () => {
+    const items = extractVocabulary(session({
+      mistakes: [
+        mistake('she have a car', 'she has a car', 'grammar'),
+        mistake('I am very boring in the class today with the teacher', 'The class was really boring for me today, the teacher talked a lot')
+      ]
+    }));
+
+    expect(items).toEqual([]);
+  });
+
+  it('adds the tutor words without repeating a term', () => {
+    const items = extractVocabulary(session({
+      mistakes: [mistake('It depends of you', 'It depends on you')],
+      newVocabulary: [
+        { term: 'depends on', meaning: 'depende de', example: 'It depends on you.', source: 'tutor' },
+        { term: ' Worthwhile ', meaning: 'que vale a pena', example: 'It was worthwhile.', source: 'tutor' }
+      ]
+    }));
+
+    expect(items.map(item => [item.term, item.source])).toEqual([['depends on', 'correction'], ['Worthwhile', 'tutor']]);
+  });
+
+  it('caps the cards of one session', () => {
+    const newVocabulary = Array.from({ length: 20 }, (_, i) => ({ term: `word${i}`, meaning: '', example: '', source: 'tutor' as const }));
+    expect(extractVocabulary(session({ newVocabulary }))).toHaveLength(MAX_CARDS_PER_SESSION);
+  });
+});
@@ -0,0 +1,65 @@
+// Words for the vocabulary deck, taken from an evaluated session.
+import { Mistake, SessionResult, VocabularyItem } from '../types';
+
+// New cards per session, so a long session doesn't bury the deck
+export const MAX_CARDS_PER_SESSION = 12;
+// A longer change is a rewritten sentence, not a word to remember
+const MAX_CORRECTION_WORDS = 5;
+
+// Key of a card in the deck: the same word is never added twice
+export const normalizeTerm = (term: string) => term.trim().toLowerCase().replace(/[.,!?;:"]+$/, '');
+
+const words = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+
+const sameWord = (a: string, b: string) => normalizeTerm(a) === normalizeTerm(b);
+
+/**
+ * The words that differ between the learner's phrase and its correction, with the unchanged words around them
+ * trimmed. The word before the change stays as context ("she have a car" → "she has a car": "she have" →
+ * "she has"), and so does the word after a word that was only added or removed ("more better" → "better").
+ */
+export const diffCorrection = (original: string, corrected: string): { mistaken: string; term: string } | null => {
+  const before = words(original);
+  const after = words(corrected);
+
+  let start = 0;
+  while (start < before.length && start < after.length && sameWord(before[start], after[start])) start++;
+  let end = 0;
+  while (end < before.length - start && end < after.length - start &&
+    sameWord(before[before.length - 1 - end], after[after.length - 1 - end])) end++;
+
+  if (start === before.length && start === after.length) return null; // Nothing changed
+  if (end > 0 && (start === before.length - end || start === after.length - end)) end--;
+  if (start > 0) start--;
+
+  const mistaken = before.slice(start, before.length - end).join(' ');
+  const term = after.slice(start, after.length - end).join(' ').replace(/[.,!?;:"]+$/, '');
+  return mistaken && term ? { mistaken, term } : null;
+};
+
+const toCorrectionCard = (mistake: Mistake): VocabularyItem | null => {
+  const change = diffCorrection(mistake.original, mistake.corrected);
+  if (!change || words(change.term).length > MAX_CORRECTION_WORDS) return null;
+  return { term: change.term, mistaken: change.mistaken, meaning: mistake.explanation, example: mistake.corrected.trim(), source: 'correction' };
+};
+
+/**
+ * Words the tutor introduced plus correction cards for the words the learner misused, without repeats.
+ */
+export const extractVocabulary = (session: SessionResult): VocabularyItem[] => {
+  const corrections = (session.mistakes || [])
+    .filter(mistake => mistake.category === 'vocabulary')
+    .map(toCorrectionCard)
+    .filter((item): item is VocabularyItem => item !== null);
+
+  const seen = new Set<string>();
+  return [...corrections, ...(session.newVocabulary || [])]
+    .filter(item => {
+      const key = normalizeTerm(item.term);
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(item => ({ ...item, term: item.term.trim() }))
+    .slice(0, MAX_CARDS_PER_SESSION);
+};
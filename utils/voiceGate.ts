@@ -0,0 +1,69 @@
+// Client-side voice activity gate: decides which 16 kHz mic chunks are worth sending to Gemini.
+// Energy-based with an adaptive noise floor, so it keeps working next to a fan or an open office.
+
+// Chunks are 100 ms (see CHUNK_SAMPLES in micCapture)
+const PRE_ROLL_CHUNKS = 3; // Sent when speech starts so the first syllable isn't clipped
+const HANGOVER_CHUNKS = 8; // Keep the gate open through short pauses between words
+const MIN_THRESHOLD = 0.012; // RMS; below this is treated as silence regardless of the noise floor
+const NOISE_FLOOR_MULTIPLIER = 3;
+const NOISE_FLOOR_ADAPT_RATE = 0.05;
+
+export interface VoiceGateResult {
+  // Chunks to send now (pre-roll included when speech just started)
+  chunks: Float32Array[];
+  started: boolean;
+  ended: boolean;
+}
+
+const rms = (chunk: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < chunk.length; i++) sum += chunk[i] * chunk[i];
+  return Math.sqrt(sum / chunk.length);
+};
+
+export class VoiceActivityGate {
+  private noiseFloor = 0.004;
+  private isOpen = false;
+  private hangover = 0;
+  private preRoll: Float32Array[] = [];
+
+  get open() {
+    return this.isOpen;
+  }
+
+  process(chunk: Float32Array): VoiceGateResult {
+    const level = rms(chunk);
+    const threshold = Math.max(MIN_THRESHOLD, this.noiseFloor * NOISE_FLOOR_MULTIPLIER);
+    const isSpeech = level > threshold;
+
+    if (!this.isOpen) {
+      if (!isSpeech) {
+        // Only learn the noise floor from non-speech, otherwise loud talkers would raise it
+        this.noiseFloor += (level - this.noiseFloor) * NOISE_FLOOR_ADAPT_RATE;
+        this.preRoll.push(chunk);
+        if (this.preRoll.length > PRE_ROLL_CHUNKS) this.preRoll.shift();
+        return { chunks: [], started: false, ended: false };
+      }
+
+      this.isOpen = true;
+      this.hangover = HANGOVER_CHUNKS;
+      const chunks = [...this.preRoll, chunk];
+      this.preRoll = [];
+      return { chunks, started: true, ended: false };
+    }
+
+    if (isSpeech) {
+      this.hangover = HANGOVER_CHUNKS;
+    } else if (--this.hangover <= 0) {
+      this.isOpen = false;
+      return { chunks: [chunk], started: false, ended: true };
+    }
+    return { chunks: [chunk], started: false, ended: false };
+  }
+
+  reset() {
+    this.isOpen = false;
+    this.hangover = 0;
+    this.preRoll = [];
+  }
+}
@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.RECORDING_FORMAT': JSON.stringify(env.RECORDING_FORMAT),
+        'process.env.RECORDING_MAX_MINUTES': JSON.stringify(env.RECORDING_MAX_MINUTES),
+        'process.env.RECORDING_RETENTION_DAYS': JSON.stringify(env.RECORDING_RETENTION_DAYS),
+        'process.env.RECORDING_MAX_STORED': JSON.stringify(env.RECORDING_MAX_STORED),
+        'process.env.EVALUATION_PROVIDER': JSON.stringify(env.EVALUATION_PROVIDER),
+        'process.env.EVALUATION_MODEL': JSON.stringify(env.EVALUATION_MODEL),
+        'process.env.SCORING_RUBRIC_VERSION': JSON.stringify(env.SCORING_RUBRIC_VERSION),
+        'process.env.CREDITS_API_URL': JSON.stringify(env.CREDITS_API_URL)
       },
       resolve: {
         alias: {